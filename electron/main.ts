@@ -1,8 +1,62 @@
 import { app, BrowserWindow, ipcMain, dialog } from 'electron'
-import { join } from 'path'
+import { basename, join, resolve } from 'path'
+import { readFile, writeFile } from 'fs/promises'
 
 let mainWindow: BrowserWindow | null = null
 
+interface CliOptions {
+  input: string
+  template: string
+  sheet?: string
+  out: string
+}
+
+const CLI_USAGE = 'Usage: ticket-cards --input <sprint.xlsx|.csv> --template <saved template name> [--sheet <sheet name>] --out <cards.pdf>'
+const CLI_FLAGS = ['input', 'template', 'sheet', 'out']
+// A batch print that hasn't finished by then is stuck, e.g. on an image that never loads
+const CLI_TIMEOUT_MS = 120_000
+
+/**
+ * Reads "--name value" or "--name=value" flags. Returns null when none are
+ * given, so the app starts normally, and throws if a required one is missing.
+ */
+function parseCliArgs(argv: string[]): CliOptions | null {
+  const values: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([a-z]+)(?:=(.*))?$/)
+    if (!match || !CLI_FLAGS.includes(match[1])) continue
+    if (match[2] !== undefined) {
+      values[match[1]] = match[2]
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      values[match[1]] = argv[++i]
+    } else {
+      throw new Error(`Missing value for --${match[1]}`)
+    }
+  }
+  if (Object.keys(values).length === 0) return null
+
+  const missing = ['input', 'template', 'out'].filter(flag => !values[flag])
+  if (missing.length > 0) {
+    throw new Error(`Missing ${missing.map(flag => `--${flag}`).join(', ')}`)
+  }
+  return {
+    input: resolve(values.input),
+    template: values.template,
+    sheet: values.sheet || undefined,
+    out: resolve(values.out)
+  }
+}
+
+function loadApp(window: BrowserWindow, query?: Record<string, string>) {
+  if (process.env.VITE_DEV_SERVER_URL) {
+    const url = new URL(process.env.VITE_DEV_SERVER_URL)
+    for (const [key, value] of Object.entries(query ?? {})) url.searchParams.set(key, value)
+    window.loadURL(url.toString())
+  } else {
+    window.loadFile(join(__dirname, '../dist/index.html'), { query })
+  }
+}
+
 function createWindow() {
   mainWindow = new BrowserWindow({
     width: 1400,
@@ -14,15 +68,77 @@ function createWindow() {
     }
   })
 
+  loadApp(mainWindow)
   if (process.env.VITE_DEV_SERVER_URL) {
-    mainWindow.loadURL(process.env.VITE_DEV_SERVER_URL)
     mainWindow.webContents.openDevTools()
-  } else {
-    mainWindow.loadFile(join(__dirname, '../dist/index.html'))
   }
 }
 
-app.whenReady().then(createWindow)
+let cliOptions: CliOptions | null = null
+try {
+  cliOptions = parseCliArgs(process.argv.slice(1))
+} catch (error) {
+  console.error(`${(error as Error).message}\n${CLI_USAGE}`)
+  process.exit(2)
+}
+
+function exitCli(code: number, message: string) {
+  if (code === 0) console.log(message)
+  else console.error(message)
+  app.exit(code)
+}
+
+/**
+ * Batch print: the app runs in a hidden window with ?cli, loads the file and
+ * template itself (it has the saved templates) and calls finish-cli-job once
+ * the cards are rendered; the PDF is then printed like "Export PDF" does.
+ */
+async function runCli(options: CliOptions) {
+  let data: Buffer
+  try {
+    data = await readFile(options.input)
+  } catch (error) {
+    exitCli(1, `Cannot read ${options.input}: ${(error as Error).message}`)
+    return
+  }
+
+  ipcMain.handle('get-cli-job', () => ({
+    inputName: basename(options.input),
+    data,
+    template: options.template,
+    sheet: options.sheet
+  }))
+
+  ipcMain.handle('finish-cli-job', async (event, result: { cardCount: number }) => {
+    try {
+      const pdf = await event.sender.printToPDF({ printBackground: true, preferCSSPageSize: true })
+      await writeFile(options.out, pdf)
+      exitCli(0, `Wrote ${result.cardCount} cards to ${options.out}`)
+    } catch (error) {
+      exitCli(1, `Cannot write ${options.out}: ${(error as Error).message}`)
+    }
+  })
+
+  ipcMain.handle('fail-cli-job', (_event, message: string) => exitCli(1, message))
+
+  const window = new BrowserWindow({
+    show: false,
+    width: 1400,
+    height: 900,
+    webPreferences: {
+      preload: join(__dirname, 'preload.js'),
+      nodeIntegration: false,
+      contextIsolation: true,
+      // Keep rendering and animation frames running although nothing is shown
+      backgroundThrottling: false
+    }
+  })
+  window.webContents.on('render-process-gone', (_event, details) => exitCli(1, `Renderer stopped: ${details.reason}`))
+  setTimeout(() => exitCli(1, `Timed out after ${CLI_TIMEOUT_MS / 1000}s`), CLI_TIMEOUT_MS).unref()
+  loadApp(window, { cli: '1' })
+}
+
+app.whenReady().then(() => cliOptions ? runCli(cliOptions) : createWindow())
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
@@ -31,7 +147,7 @@ app.on('window-all-closed', () => {
 })
 
 app.on('activate', () => {
-  if (BrowserWindow.getAllWindows().length === 0) {
+  if (!cliOptions && BrowserWindow.getAllWindows().length === 0) {
     createWindow()
   }
 })
@@ -45,3 +161,100 @@ ipcMain.handle('open-file-dialog', async () => {
   })
   return result.filePaths[0] || null
 })
+
+ipcMain.handle('export-pdf', async (event, options: { defaultFileName: string; pageRanges?: string }) => {
+  const window = BrowserWindow.fromWebContents(event.sender)
+  const saveOptions = {
+    defaultPath: options.defaultFileName,
+    filters: [
+      { name: 'PDF', extensions: ['pdf'] }
+    ]
+  }
+  const result = window
+    ? await dialog.showSaveDialog(window, saveOptions)
+    : await dialog.showSaveDialog(saveOptions)
+  if (result.canceled || !result.filePath) return null
+
+  // Page size comes from the @page rule injected by PrintView
+  const pdf = await event.sender.printToPDF({
+    printBackground: true,
+    preferCSSPageSize: true,
+    pageRanges: options.pageRanges
+  })
+  await writeFile(result.filePath, pdf)
+  return result.filePath
+})
+
+// Jira doesn't send CORS headers, so the renderer routes its API calls through here,
+// limited to the configured server's origin and the GET/POST its API calls use
+ipcMain.handle('jira-request', async (_event, request: { baseUrl: string; url: string; method: string; headers: Record<string, string>; body?: string }) => {
+  if (!/^https?:\/\//i.test(request.baseUrl)) {
+    throw new Error('Jira URL must start with http:// or https://')
+  }
+  if (new URL(request.url).origin !== new URL(request.baseUrl).origin) {
+    throw new Error(`Request to ${request.url} is outside the Jira server ${request.baseUrl}`)
+  }
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    throw new Error(`Unsupported Jira request method ${request.method}`)
+  }
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body
+  })
+  return { status: response.status, statusText: response.statusText, body: await response.text() }
+})
+
+const PROJECT_FILTERS = [
+  { name: 'Ticket cards project', extensions: ['ticketcards'] }
+]
+
+// Save overwrites the known path; Save As (no path yet) asks for one
+ipcMain.handle('save-project', async (event, request: { filePath?: string; defaultFileName: string; content: string }) => {
+  let filePath = request.filePath
+  if (!filePath) {
+    const window = BrowserWindow.fromWebContents(event.sender)
+    const saveOptions = { defaultPath: request.defaultFileName, filters: PROJECT_FILTERS }
+    const result = window
+      ? await dialog.showSaveDialog(window, saveOptions)
+      : await dialog.showSaveDialog(saveOptions)
+    if (result.canceled || !result.filePath) return null
+    filePath = result.filePath
+  }
+  await writeFile(filePath, request.content, 'utf-8')
+  return filePath
+})
+
+ipcMain.handle('open-project', async (event) => {
+  const window = BrowserWindow.fromWebContents(event.sender)
+  const openOptions = { properties: ['openFile' as const], filters: PROJECT_FILTERS }
+  const result = window
+    ? await dialog.showOpenDialog(window, openOptions)
+    : await dialog.showOpenDialog(openOptions)
+  const filePath = result.filePaths[0]
+  if (result.canceled || !filePath) return null
+  return { filePath, content: await readFile(filePath, 'utf-8') }
+})
+
+// Image export writes many files, so the folder is chosen once and each file
+// is written into it by name only
+let exportFolder: string | null = null
+
+ipcMain.handle('choose-export-folder', async (event) => {
+  const window = BrowserWindow.fromWebContents(event.sender)
+  const openOptions = { title: 'Export card images', properties: ['openDirectory' as const, 'createDirectory' as const] }
+  const result = window
+    ? await dialog.showOpenDialog(window, openOptions)
+    : await dialog.showOpenDialog(openOptions)
+  exportFolder = result.canceled ? null : result.filePaths[0] ?? null
+  return exportFolder
+})
+
+ipcMain.handle('write-export-file', async (_event, request: { fileName: string; data: Uint8Array }) => {
+  if (!exportFolder) {
+    throw new Error('No export folder chosen')
+  }
+  const filePath = join(exportFolder, basename(request.fileName))
+  await writeFile(filePath, request.data)
+  return filePath
+})
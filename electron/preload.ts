@@ -1,5 +1,14 @@
 import { contextBridge, ipcRenderer } from 'electron'
 
 contextBridge.exposeInMainWorld('electronAPI', {
-  openFileDialog: () => ipcRenderer.invoke('open-file-dialog')
+  openFileDialog: () => ipcRenderer.invoke('open-file-dialog'),
+  exportPDF: (options: { defaultFileName: string; pageRanges?: string }) => ipcRenderer.invoke('export-pdf', options),
+  jiraRequest: (request: { baseUrl: string; url: string; method: string; headers: Record<string, string>; body?: string }) => ipcRenderer.invoke('jira-request', request),
+  saveProject: (request: { filePath?: string; defaultFileName: string; content: string }) => ipcRenderer.invoke('save-project', request),
+  openProject: () => ipcRenderer.invoke('open-project'),
+  chooseExportFolder: () => ipcRenderer.invoke('choose-export-folder'),
+  writeExportFile: (request: { fileName: string; data: Uint8Array }) => ipcRenderer.invoke('write-export-file', request),
+  getCliJob: () => ipcRenderer.invoke('get-cli-job'),
+  finishCliJob: (result: { cardCount: number }) => ipcRenderer.invoke('finish-cli-job', result),
+  failCliJob: (message: string) => ipcRenderer.invoke('fail-cli-job', message)
 })
@@ -0,0 +1,152 @@
+// Minimal stand-in for the Jira REST API, for trying the Jira importer without
+// a real instance. Run `npm run mock:jira`, then import from http://localhost:4010
+// with any email/token (or any personal access token), using JQL, sprint 1 or board 1.
+import { createServer } from 'http'
+
+const PORT = Number(process.env.PORT) || 4010
+const ISSUE_COUNT = 230  // More than two pages, so paging gets exercised
+
+const NAMES = {
+  summary: 'Summary',
+  issuetype: 'Issue Type',
+  status: 'Status',
+  priority: 'Priority',
+  assignee: 'Assignee',
+  reporter: 'Reporter',
+  labels: 'Labels',
+  components: 'Components',
+  fixVersions: 'Fix Version/s',
+  created: 'Created',
+  updated: 'Updated',
+  description: 'Description',
+  parent: 'Parent',
+  subtasks: 'Sub-tasks',
+  issuelinks: 'Linked Issues',
+  comment: 'Comment',
+  customfield_10010: 'Sprint',
+  customfield_10016: 'Story Points',
+  customfield_10050: 'Team',
+  customfield_10060: 'Customer'
+}
+
+const SCHEMA = {
+  customfield_10010: { type: 'array', custom: 'com.pyxis.greenhopper.jira:gh-sprint' },
+  customfield_10016: { type: 'number', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:float' },
+  customfield_10050: { type: 'option', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:select' },
+  customfield_10060: { type: 'string', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:textfield' }
+}
+
+const TYPES = ['Story', 'Bug', 'Task', 'Sub-task']
+const STATUSES = ['To Do', 'In Progress', 'In Review', 'Done']
+const PRIORITIES = ['Highest', 'High', 'Medium', 'Low']
+const PEOPLE = ['Ada Lovelace', 'Alan Turing', 'Grace Hopper', null]
+const TEAMS = ['Platform', 'Payments', 'Mobile']
+
+function makeIssue(n) {
+  const key = `DEMO-${n}`
+  const type = TYPES[n % TYPES.length]
+  const assignee = PEOPLE[n % PEOPLE.length]
+  return {
+    key,
+    fields: {
+      summary: `Demo issue ${n}`,
+      issuetype: { name: type },
+      status: { name: STATUSES[n % STATUSES.length] },
+      priority: { name: PRIORITIES[n % PRIORITIES.length] },
+      assignee: assignee && { displayName: assignee },
+      reporter: { displayName: 'Grace Hopper' },
+      labels: n % 3 === 0 ? ['frontend', 'ux'] : [],
+      components: [{ name: n % 2 ? 'API' : 'Web' }],
+      fixVersions: n % 4 === 0 ? [{ name: '1.2.0' }] : [],
+      created: new Date(Date.UTC(2024, 0, 1 + (n % 28))).toISOString(),
+      updated: new Date(Date.UTC(2024, 1, 1 + (n % 28))).toISOString(),
+      description: n % 5 === 0 ? null : `Description for issue ${n}.`,
+      parent: type === 'Sub-task' ? { key: `DEMO-${n - 1}` } : null,
+      subtasks: type === 'Task' ? [{ key: `DEMO-${n + 1}` }] : [],
+      issuelinks: n % 7 === 0 && n > 1
+        ? [{ type: { inward: 'is blocked by', outward: 'blocks' }, outwardIssue: { key: `DEMO-${n - 1}` } }]
+        : [],
+      comment: { comments: [], total: 0 },
+      // Odd issues use the Cloud sprint object, even ones the old Server string
+      customfield_10010: n % 2
+        ? [{ id: 1, name: 'Sprint 1', state: 'active' }]
+        : ['com.atlassian.greenhopper.service.sprint.Sprint@5a2e[id=1,rapidViewId=1,state=ACTIVE,name=Sprint 1,startDate=2024-01-01]'],
+      customfield_10016: [1, 2, 3, 5, 8][n % 5],
+      customfield_10050: { value: TEAMS[n % TEAMS.length] },
+      customfield_10060: null
+    }
+  }
+}
+
+const ISSUES = Array.from({ length: ISSUE_COUNT }, (_, i) => makeIssue(i + 1))
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  })
+  res.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', chunk => { data += chunk })
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {})
+      } catch (error) {
+        reject(error)
+      }
+    })
+  })
+}
+
+function search(params) {
+  const startAt = Number(params.startAt) || 0
+  const maxResults = Math.min(Number(params.maxResults) || 50, 100)
+  return {
+    startAt,
+    maxResults,
+    total: ISSUES.length,
+    issues: ISSUES.slice(startAt, startAt + maxResults),
+    names: NAMES,
+    schema: SCHEMA
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`)
+  console.log(req.method, url.pathname + url.search)
+
+  if (req.method === 'OPTIONS') return send(res, 204)
+
+  const auth = req.headers.authorization || ''
+  if (!/^(Basic|Bearer) \S+/.test(auth)) {
+    return send(res, 401, { errorMessages: ['You are not authenticated.'] })
+  }
+
+  if (url.pathname === '/rest/api/2/search') {
+    if (req.method === 'POST') {
+      const body = await readBody(req).catch(() => null)
+      if (!body) return send(res, 400, { errorMessages: ['Invalid JSON body'] })
+      if (!body.jql) return send(res, 400, { errorMessages: ['JQL is required'] })
+      return send(res, 200, search(body))
+    }
+    return send(res, 200, search(Object.fromEntries(url.searchParams)))
+  }
+
+  const board = url.pathname.match(/^\/rest\/agile\/1\.0\/board\/(\d+)\/configuration$/)
+  if (board) {
+    if (board[1] !== '1') return send(res, 404, { errorMessages: [`Board ${board[1]} does not exist`] })
+    return send(res, 200, { id: 1, name: 'DEMO board', filter: { id: '10000' } })
+  }
+
+  send(res, 404, { errorMessages: [`No mock for ${url.pathname}`] })
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock Jira listening on http://localhost:${PORT}`)
+})
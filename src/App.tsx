@@ -7,7 +7,11 @@ import { PrintView } from './components/PrintView'
 import { AIChat } from './components/AIChat'
 import { AIFieldProcessor } from './components/AIFieldProcessor'
 import { TemplateManager } from './components/TemplateManager'
+import { ProjectMenu } from './components/ProjectMenu'
+import { HistoryPanel } from './components/HistoryPanel'
 import { StylePanel } from './components/StylePanel'
+import { FilterBar } from './components/FilterBar'
+import { ChangeReport } from './components/ChangeReport'
 import { useDataStore } from './stores/dataStore'
 
 type Tab = 'design' | 'print'
@@ -26,6 +30,8 @@ function App() {
           <h1 className="text-xl font-bold text-gray-800">Ticket Card Printer</h1>
 
           <div className="flex items-center gap-4">
+            <HistoryPanel />
+            <ProjectMenu />
             <TemplateManager />
             {rows.length > 0 && (
               <>
@@ -76,6 +82,8 @@ function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto p-4">
+        {rows.length > 0 && <ChangeReport />}
+        {rows.length > 0 && <FilterBar />}
         {rows.length === 0 ? (
           <FileUpload />
         ) : activeTab === 'design' ? (
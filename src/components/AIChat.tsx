@@ -1,8 +1,9 @@
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
 import { useAIStore } from '../stores/aiStore'
 import { useDataStore } from '../stores/dataStore'
 import { sendChatMessage, testConnection } from '../services/aiService'
 import { AIProvider } from '../types'
+import { filterRows } from '../utils/filterQuery'
 
 export function AIChat() {
   const [isOpen, setIsOpen] = useState(false)
@@ -18,7 +19,16 @@ export function AIChat() {
   const isLoading = useAIStore(state => state.isLoading)
   const setLoading = useAIStore(state => state.setLoading)
 
-  const rows = useDataStore(state => state.rows)
+  const allRows = useDataStore(state => state.rows)
+  const columns = useDataStore(state => state.columns)
+  const columnSchema = useDataStore(state => state.columnSchema)
+  const filter = useDataStore(state => state.sortConfig.filter)
+
+  // Chat about the same tickets that are being printed
+  const rows = useMemo(
+    () => filterRows(allRows, filter, columns, columnSchema).rows,
+    [allRows, filter, columns, columnSchema]
+  )
 
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
@@ -45,7 +55,8 @@ export function AIChat() {
       const response = await sendChatMessage(
         provider,
         [...chatHistory, userMessage],
-        rows
+        rows,
+        rows.length < allRows.length ? filter : undefined
       )
       addMessage({ role: 'assistant', content: response })
     } catch (error) {
@@ -173,7 +184,7 @@ export function AIChat() {
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-3 space-y-3">
-        {rows.length === 0 && (
+        {allRows.length === 0 && (
           <div className="text-center text-gray-400 text-sm py-4">
             Upload data to start chatting about your tickets
           </div>
@@ -209,13 +220,13 @@ export function AIChat() {
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSend()}
-            placeholder={rows.length > 0 ? "Ask about your tickets..." : "Load data first..."}
-            disabled={rows.length === 0 || isLoading}
+            placeholder={allRows.length > 0 ? "Ask about your tickets..." : "Load data first..."}
+            disabled={allRows.length === 0 || isLoading}
             className="flex-1 border rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-gray-100"
           />
           <button
             onClick={handleSend}
-            disabled={!input.trim() || rows.length === 0 || isLoading}
+            disabled={!input.trim() || allRows.length === 0 || isLoading}
             className="px-4 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50"
           >
             Send
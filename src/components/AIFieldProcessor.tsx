@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react'
-import { useDataStore } from '../stores/dataStore'
+import { useDataStore, useHistoryStore } from '../stores/dataStore'
 import { useAIStore } from '../stores/aiStore'
 import { processFieldValue, testConnection } from '../services/aiService'
+import { formatCellValue } from '../utils/cellValues'
 
 const PRESET_PROMPTS = [
   { label: 'Summarize', prompt: 'Summarize this text in 1-2 sentences, keeping the key information. Use markdown: **bold** for emphasis.' },
@@ -79,6 +80,7 @@ export function AIFieldProcessor() {
   const updateRowField = useDataStore(state => state.updateRowField)
   const updateAllRowsField = useDataStore(state => state.updateAllRowsField)
   const fieldMappings = useDataStore(state => state.fieldMappings)
+  const recordAs = useHistoryStore(state => state.recordAs)
 
   const provider = useAIStore(state => state.provider)
 
@@ -122,7 +124,7 @@ export function AIFieldProcessor() {
     setPreview(null)
 
     try {
-      const originalValue = String(rows[previewIndex]?.[sourceField] || '')
+      const originalValue = formatCellValue(rows[previewIndex]?.[sourceField])
       console.log('Original value:', originalValue, 'from field:', sourceField)
 
       if (!originalValue.trim()) {
@@ -137,7 +139,7 @@ export function AIFieldProcessor() {
     } catch (error) {
       console.error('Preview error:', error)
       setPreview({
-        original: String(rows[previewIndex]?.[sourceField] || ''),
+        original: formatCellValue(rows[previewIndex]?.[sourceField]),
         processed: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
       })
     } finally {
@@ -155,34 +157,48 @@ export function AIFieldProcessor() {
 
     const targetFieldName = getTargetFieldName()
     console.log('Target field name:', targetFieldName)
+    const promptLabel = PRESET_PROMPTS.find(p => p.prompt === currentPrompt)?.label
+      || savedPrompts.find(p => p.prompt === currentPrompt)?.label
+      || 'Custom prompt'
     setIsProcessing(true)
 
     try {
       if (applyTo === 'current') {
-        const originalValue = String(rows[previewIndex]?.[sourceField] || '')
+        const originalValue = formatCellValue(rows[previewIndex]?.[sourceField])
         if (originalValue.trim()) {
           const processed = await processFieldValue(provider, originalValue, currentPrompt)
-          updateRowField(previewIndex, targetFieldName, processed)
+          recordAs(`AI: ${promptLabel} ${sourceField} on row ${previewIndex + 1}`, () => {
+            updateRowField(previewIndex, targetFieldName, processed)
+          })
         }
         setProgress({ current: 1, total: 1 })
       } else {
-        // Process all rows - update each row individually for reliability
+        // Process all rows one by one, then apply the results together as a
+        // single undo step, so edits made meanwhile keep their own entries
         const total = rows.length
+        const processedValues = new Map<number, string>()
         setProgress({ current: 0, total })
 
-        for (let i = 0; i < rows.length; i++) {
-          const originalValue = String(rows[i]?.[sourceField] || '')
-          if (originalValue.trim()) {
-            try {
-              const processed = await processFieldValue(provider, originalValue, currentPrompt)
-              console.log(`Updating row ${i} with processed value (length: ${processed.length})`)
-              updateRowField(i, targetFieldName, processed)
-            } catch (err) {
-              console.error(`Error processing row ${i}:`, err)
-              // Skip failed rows
+        try {
+          for (let i = 0; i < rows.length; i++) {
+            const originalValue = formatCellValue(rows[i]?.[sourceField])
+            if (originalValue.trim()) {
+              try {
+                const processed = await processFieldValue(provider, originalValue, currentPrompt)
+                processedValues.set(i, processed)
+              } catch (err) {
+                console.error(`Error processing row ${i}:`, err)
+                // Skip failed rows
+              }
             }
+            setProgress({ current: i + 1, total })
+          }
+        } finally {
+          if (processedValues.size > 0) {
+            recordAs(`AI: ${promptLabel} ${sourceField} on ${processedValues.size} rows`, () => {
+              updateAllRowsField(targetFieldName, processedValues)
+            })
           }
-          setProgress({ current: i + 1, total })
         }
 
         console.log('All rows processed')
@@ -1,41 +1,61 @@
-import { useMemo, useState, useEffect } from 'react'
+import { useMemo, useState, useEffect, useRef } from 'react'
 import GridLayout, { Layout } from 'react-grid-layout'
 import 'react-grid-layout/css/styles.css'
 import 'react-resizable/css/styles.css'
-import { useDataStore } from '../stores/dataStore'
+import { getEditedDesign, useDataStore } from '../stores/dataStore'
 import { useAIStore } from '../stores/aiStore'
-import { FieldLayout, ColorRule, TicketRow, CardBackgroundRule, SortedCardResult } from '../types'
-import { renderMarkdown } from '../utils/markdownRenderer'
+import { FieldLayout, ColorRule, TicketRow, SortedCardResult, CardSide, CardElement, CardElementType, LayoutDesign } from '../types'
 import { SortPanel } from './SortPanel'
 import { applySorting } from '../utils/cardSorting'
+import { filterRows } from '../utils/filterQuery'
 import { applyAISorting } from '../utils/aiSorting'
-
-const GRID_COLS = 12
-const GRID_ROW_HEIGHT = 25
-const CARD_WIDTH = 794
-const CARD_HEIGHT = 561
-const PADDING = 10
+import { CardSizePicker } from './CardSizePicker'
+import { LayoutVariantPicker } from './LayoutVariantPicker'
+import { computeScaleDomains } from '../utils/colorScale'
+import { CARD_ELEMENT_LABELS, createCardElement, createStaticLayout, isStaticLayout } from '../utils/cardElements'
+import { findKeyColumn } from '../utils/ticketKeys'
+import { CARD_PADDING_PERCENT, CardContext, getDisplayName, getFieldStyle, getSideLayouts, GRID_COLS, PX_PER_MM, resolveCard } from '../utils/cardLayout'
+import { ConditionEditor, newCondition } from './ConditionEditor'
+import { CardElementEditor } from './CardElementEditor'
+import { CardRenderer } from './CardRenderer'
+
+const CANVAS_MAX_WIDTH = 794   // Half A4 at 96 DPI
+const CANVAS_MAX_HEIGHT = 794
 
 export function CardDesigner() {
-  const rows = useDataStore(state => state.rows)
+  const allRows = useDataStore(state => state.rows)
   const fieldMappings = useDataStore(state => state.fieldMappings)
-  const fieldLayouts = useDataStore(state => state.fieldLayouts)
+  const fieldLayouts = useDataStore(state => getEditedDesign(state).fieldLayouts)
   const setFieldLayouts = useDataStore(state => state.setFieldLayouts)
-  const fieldStyles = useDataStore(state => state.fieldStyles)
+  const backFieldLayouts = useDataStore(state => getEditedDesign(state).backFieldLayouts)
+  const setBackFieldLayouts = useDataStore(state => state.setBackFieldLayouts)
+  const fieldStyles = useDataStore(state => getEditedDesign(state).fieldStyles)
   const updateFieldStyle = useDataStore(state => state.updateFieldStyle)
   const previewIndex = useDataStore(state => state.previewIndex)
   const setPreviewIndex = useDataStore(state => state.setPreviewIndex)
   const getEnrichedRow = useDataStore(state => state.getEnrichedRow)
   const enrichmentGroup = useDataStore(state => state.enrichmentGroup)
   const columns = useDataStore(state => state.columns)
-  const cardBackgroundRules = useDataStore(state => state.cardBackgroundRules)
+  const cardBackgroundRules = useDataStore(state => getEditedDesign(state).cardBackgroundRules)
   const sortConfig = useDataStore(state => state.sortConfig)
+  const columnSchema = useDataStore(state => state.columnSchema)
   const setSortConfig = useDataStore(state => state.setSortConfig)
   const aiSortedResults = useDataStore(state => state.aiSortedResults)
   const setAISortedResults = useDataStore(state => state.setAISortedResults)
+  const cardSize = useDataStore(state => state.cardSize)
+  const printSettings = useDataStore(state => state.printSettings)
+  const setPrintSettings = useDataStore(state => state.setPrintSettings)
   const aiProvider = useAIStore(state => state.provider)
 
+  // Preview and AI sorting only cover the tickets matching the filter
+  const rows = useMemo(
+    () => filterRows(allRows, sortConfig.filter, columns, columnSchema).rows,
+    [allRows, sortConfig.filter, columns, columnSchema]
+  )
+
+  const [side, setSide] = useState<CardSide>('front')
   const [editingRules, setEditingRules] = useState<string | null>(null)
+  const [editingElement, setEditingElement] = useState<string | null>(null)
   const [showSortPanel, setShowSortPanel] = useState(false)
   const [aiAnalysisState, setAIAnalysisState] = useState<{
     isRunning: boolean
@@ -65,7 +85,7 @@ export function CardDesigner() {
     try {
       // First apply regular sorting rules
       console.log('📊 Applying regular sorting rules...')
-      const sortedResults = applySorting(rows, sortConfig)
+      const sortedResults = applySorting(rows, sortConfig, columnSchema)
       console.log('📊 Regular sorting complete. Results:', sortedResults.length)
 
       // Then apply AI sorting on top
@@ -88,11 +108,10 @@ export function CardDesigner() {
     }
   }
 
-  // Reset AI analysis when data or config changes
+  // The store drops AI results when tickets or sorting change; forget the last run with them
   useEffect(() => {
-    setAISortedResults(null)
-    setAIAnalysisState({ isRunning: false })
-  }, [rows, sortConfig])
+    if (!aiSortedResults) setAIAnalysisState(state => state.isRunning ? state : { isRunning: false })
+  }, [aiSortedResults])
 
   const currentRow = useMemo(() => {
     if (rows.length === 0) return null
@@ -102,141 +121,113 @@ export function CardDesigner() {
     return getEnrichedRow(row)
   }, [rows, previewIndex, getEnrichedRow])
 
-  const allLayouts = useMemo(() => {
-    if (!enrichmentGroup || !currentRow) return fieldLayouts
-
-    const enrichedFields = enrichmentGroup.enrichments[String(currentRow[enrichmentGroup.groupField])]
-    if (!enrichedFields) return fieldLayouts
-
-    const enrichedLayouts: FieldLayout[] = []
-    let maxY = Math.max(0, ...fieldLayouts.map(l => l.y + l.h))
-
-    Object.keys(enrichedFields).forEach((fieldName, i) => {
-      const exists = fieldLayouts.find(l => l.i === `_enriched_${fieldName}`)
-      if (!exists) {
-        enrichedLayouts.push({
-          i: `_enriched_${fieldName}`,
-          x: (i % 2) * 6,
-          y: maxY + Math.floor(i / 2) * 2,
-          w: 6,
-          h: 2,
-          minW: 2,
-          minH: 1
-        })
-      }
-    })
+  // Same domains as PrintView: every imported ticket, not just the filtered ones
+  const scaleDomains = useMemo(
+    () => computeScaleDomains(fieldStyles, allRows, columnSchema),
+    [fieldStyles, allRows, columnSchema]
+  )
+
+  const design: LayoutDesign = useMemo(
+    () => ({ fieldLayouts, backFieldLayouts, fieldStyles, cardBackgroundRules }),
+    [fieldLayouts, backFieldLayouts, fieldStyles, cardBackgroundRules]
+  )
+
+  const allLayouts = useMemo(
+    () => currentRow
+      ? getSideLayouts(design, currentRow, side, enrichmentGroup)
+      : side === 'back' ? backFieldLayouts : fieldLayouts,
+    [design, currentRow, side, enrichmentGroup, backFieldLayouts, fieldLayouts]
+  )
+
+  // Drawn exactly as PrintView draws it; hidden fields stay (faded) so they can be edited
+  const card = useMemo(() => {
+    if (!currentRow) return null
+    const context: CardContext = { fieldMappings, enrichmentGroup, columnSchema, scaleDomains }
+    return resolveCard(design, currentRow, side, context, { keepHiddenFields: true })
+  }, [design, currentRow, side, fieldMappings, enrichmentGroup, columnSchema, scaleDomains])
 
-    return [...fieldLayouts, ...enrichedLayouts]
-  }, [fieldLayouts, enrichmentGroup, currentRow])
+  const sideLayouts = side === 'front' ? fieldLayouts : backFieldLayouts
+  const setSideLayouts = side === 'front' ? setFieldLayouts : setBackFieldLayouts
+
+  // Field last dragged or resized; an auto-placed enrichment field is saved once it is moved
+  const grabbedItemRef = useRef<string | null>(null)
 
   const handleLayoutChange = (newLayout: Layout[]) => {
-    const converted: FieldLayout[] = newLayout.map(l => ({
-      i: l.i,
-      x: l.x,
-      y: l.y,
-      w: l.w,
-      h: l.h,
-      minW: 2,
-      minH: 1
-    }))
-    setFieldLayouts(converted)
+    // The grid also reports on mount and for auto-placed enrichment fields;
+    // only save when a stored item (or the one just grabbed) actually moved
+    const stored = new Map(sideLayouts.map(l => [l.i, l]))
+    const kept = newLayout.filter(l => stored.has(l.i) || l.i === grabbedItemRef.current)
+    const moved = kept.length !== sideLayouts.length || kept.some(l => {
+      const previous = stored.get(l.i)
+      return !previous || previous.x !== l.x || previous.y !== l.y || previous.w !== l.w || previous.h !== l.h
+    })
+    if (!moved) return
+
+    // The grid only reports positions; design elements keep their content
+    const elements = new Map(allLayouts.filter(isStaticLayout).map(l => [l.i, l.element]))
+    const converted: FieldLayout[] = kept.map(l => {
+      const element = elements.get(l.i)
+      return {
+        i: l.i,
+        x: l.x,
+        y: l.y,
+        w: l.w,
+        h: l.h,
+        minW: element ? 1 : 2,
+        minH: 1,
+        ...(element && { element })
+      }
+    })
+    setSideLayouts(converted)
   }
 
-  const getFieldStyle = (fieldId: string) => {
-    return fieldStyles.find(s => s.fieldId === fieldId) || {
-      fieldId,
-      fontSize: 12,
-      fontWeight: 'normal' as const,
-      textAlign: 'left' as const,
-      showLabel: true,
-      showBorder: true,
-      colorRules: []
-    }
+  const addElement = (type: CardElementType) => {
+    const layout = createStaticLayout(createCardElement(type, findKeyColumn(columns, columnSchema)), sideLayouts)
+    setSideLayouts([...sideLayouts, layout])
+    // Images start empty and codes need a link, so open the editor straight away
+    if (type === 'image' || type === 'code') setEditingElement(layout.i)
   }
 
-  const getDisplayName = (fieldId: string) => {
-    if (fieldId.startsWith('_enriched_')) {
-      return fieldId.replace('_enriched_', '')
-    }
-    const mapping = fieldMappings.find(m => m.columnName === fieldId)
-    return mapping?.displayName || fieldId
+  const updateElement = (layoutId: string, element: CardElement) => {
+    setSideLayouts(sideLayouts.map(l => l.i === layoutId ? { ...l, element } : l))
   }
 
-  const getFieldValue = (fieldId: string) => {
-    if (!currentRow) return ''
-    if (fieldId.startsWith('_enriched_')) {
-      const fieldName = fieldId.replace('_enriched_', '')
-      return currentRow[fieldName] || ''
-    }
-    return currentRow[fieldId] || ''
+  const removeElement = (layoutId: string) => {
+    setSideLayouts(sideLayouts.filter(l => l.i !== layoutId))
+    if (editingElement === layoutId) setEditingElement(null)
   }
 
-  const evaluateColorRules = (rules: ColorRule[], row: TicketRow | null) => {
-    if (!row || !rules.length) return { backgroundColor: '', textColor: '' }
-
-    for (const rule of rules) {
-      const fieldValue = String(row[rule.field] || '')
-
-      let matches = false
-      switch (rule.operator) {
-        case 'equals':
-          matches = fieldValue.toLowerCase() === rule.value.toLowerCase()
-          break
-        case 'contains':
-          matches = fieldValue.toLowerCase().includes(rule.value.toLowerCase())
-          break
-        case 'notEmpty':
-          matches = fieldValue.trim() !== ''
-          break
-        case 'empty':
-          matches = fieldValue.trim() === ''
-          break
-      }
+  const addBackField = (fieldId: string) => {
+    const maxY = Math.max(0, ...backFieldLayouts.map(l => l.y + l.h))
+    setBackFieldLayouts([
+      ...backFieldLayouts,
+      { i: fieldId, x: 0, y: maxY, w: 12, h: 2, minW: 2, minH: 1 }
+    ])
+  }
 
-      if (matches) {
-        return { backgroundColor: rule.backgroundColor, textColor: rule.textColor }
-      }
-    }
-    return { backgroundColor: '', textColor: '' }
+  const removeBackField = (fieldId: string) => {
+    setBackFieldLayouts(backFieldLayouts.filter(l => l.i !== fieldId))
   }
 
-  const evaluateCardBackground = (row: TicketRow | null): string => {
-    if (!row || !cardBackgroundRules.length) return 'white'
-
-    for (const rule of cardBackgroundRules) {
-      const fieldValue = String(row[rule.field] || '')
-
-      let matches = false
-      switch (rule.operator) {
-        case 'equals':
-          matches = fieldValue.toLowerCase() === rule.value.toLowerCase()
-          break
-        case 'contains':
-          matches = fieldValue.toLowerCase().includes(rule.value.toLowerCase())
-          break
-        case 'notEmpty':
-          matches = fieldValue.trim() !== ''
-          break
-        case 'empty':
-          matches = fieldValue.trim() === ''
-          break
-      }
+  // Canvas keeps the aspect ratio of the chosen card size
+  const canvasScale = Math.min(CANVAS_MAX_WIDTH / cardSize.widthMm, CANVAS_MAX_HEIGHT / cardSize.heightMm)
+  const CARD_WIDTH = Math.round(cardSize.widthMm * canvasScale)
+  const CARD_HEIGHT = Math.round(cardSize.heightMm * canvasScale)
 
-      if (matches) {
-        return rule.backgroundColor
-      }
-    }
-    return 'white'
-  }
+  // The drag grid sits over the card's field area, one grid row per rendered row
+  const gridInsetX = CARD_WIDTH * CARD_PADDING_PERCENT / 100
+  const gridInsetY = CARD_HEIGHT * CARD_PADDING_PERCENT / 100
+  const gridWidth = CARD_WIDTH - 2 * gridInsetX
+  const gridRowHeight = (CARD_HEIGHT - 2 * gridInsetY) / (card?.gridRows || 1)
+  const fieldVisibility = new Map(card?.items.map(item => [item.layout.i, item.kind === 'field' ? item.visibility : 'visible']))
 
-  const cardBackground = evaluateCardBackground(currentRow)
+  // Safe zone is configured in mm on the printed card; convert to canvas pixels
+  const safeZoneInset = printSettings.safeZoneMm * canvasScale
 
   const addColorRule = (fieldId: string) => {
-    const style = getFieldStyle(fieldId)
+    const style = getFieldStyle(fieldStyles, fieldId)
     const newRule: ColorRule = {
-      field: columns[0] || '',
-      operator: 'equals',
-      value: '',
+      condition: { match: 'all', conditions: [newCondition(columns[0] || '')] },
       backgroundColor: '#dcfce7',
       textColor: '#166534'
     }
@@ -246,14 +237,14 @@ export function CardDesigner() {
   }
 
   const updateColorRule = (fieldId: string, index: number, updates: Partial<ColorRule>) => {
-    const style = getFieldStyle(fieldId)
+    const style = getFieldStyle(fieldStyles, fieldId)
     const newRules = [...(style.colorRules || [])]
     newRules[index] = { ...newRules[index], ...updates }
     updateFieldStyle(fieldId, { colorRules: newRules })
   }
 
   const removeColorRule = (fieldId: string, index: number) => {
-    const style = getFieldStyle(fieldId)
+    const style = getFieldStyle(fieldStyles, fieldId)
     const newRules = (style.colorRules || []).filter((_, i) => i !== index)
     updateFieldStyle(fieldId, { colorRules: newRules })
   }
@@ -261,14 +252,16 @@ export function CardDesigner() {
   if (rows.length === 0) {
     return (
       <div className="flex-1 flex items-center justify-center bg-gray-100 rounded-lg">
-        <p className="text-gray-500">Upload a file to start designing cards</p>
+        <p className="text-gray-500">
+          {allRows.length === 0 ? 'Upload a file to start designing cards' : 'No tickets match the current filter'}
+        </p>
       </div>
     )
   }
 
-  const gridLayouts: Layout[] = allLayouts.map(l => ({
+  const gridLayouts: Layout[] = allLayouts.map(({ element, ...l }) => ({
     ...l,
-    minW: 2,
+    minW: element ? 1 : 2,
     minH: 1
   }))
 
@@ -303,11 +296,13 @@ export function CardDesigner() {
       currentX += layout.w
     }
 
-    setFieldLayouts(newLayouts)
+    setSideLayouts(newLayouts)
   }
 
   return (
     <div className="flex-1 flex flex-col min-h-0">
+      <LayoutVariantPicker rows={rows} previewIndex={Math.min(previewIndex, rows.length - 1)} onPreview={setPreviewIndex} />
+
       {/* Navigation */}
       <div className="flex items-center justify-between mb-2 px-2 flex-shrink-0">
         <div className="flex items-center gap-2">
@@ -328,14 +323,57 @@ export function CardDesigner() {
           >
             Next
           </button>
+          <div className="flex ml-2 rounded border overflow-hidden text-sm">
+            {(['front', 'back'] as const).map(s => (
+              <button
+                key={s}
+                onClick={() => setSide(s)}
+                className={`px-3 py-1 capitalize ${side === s ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+          {side === 'back' && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && addBackField(e.target.value)}
+              className="px-2 py-1 border rounded text-sm"
+            >
+              <option value="">+ Add field...</option>
+              {columns
+                .filter(col => !backFieldLayouts.some(l => l.i === col))
+                .map(col => (
+                  <option key={col} value={col}>{getDisplayName(col, fieldMappings)}</option>
+                ))}
+            </select>
+          )}
+          <select
+            value=""
+            onChange={(e) => e.target.value && addElement(e.target.value as CardElementType)}
+            className="px-2 py-1 border rounded text-sm"
+          >
+            <option value="">+ Add element...</option>
+            {(Object.keys(CARD_ELEMENT_LABELS) as CardElementType[]).map(type => (
+              <option key={type} value={type}>{CARD_ELEMENT_LABELS[type]}</option>
+            ))}
+          </select>
         </div>
         <div className="flex items-center gap-2">
+          <CardSizePicker compact />
           <button
             onClick={() => setShowSortPanel(!showSortPanel)}
             className="px-3 py-1 bg-purple-100 text-purple-700 rounded text-sm hover:bg-purple-200"
           >
             {showSortPanel ? 'Hide' : 'Sort Cards'} {sortConfig.rules.length > 0 && `(${sortConfig.rules.length})`}
           </button>
+          <button
+            onClick={() => setPrintSettings({ showSafeZone: !printSettings.showSafeZone })}
+            className={`px-3 py-1 rounded text-sm ${printSettings.showSafeZone ? 'bg-red-100 text-red-700 hover:bg-red-200' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            title={`Show the ${printSettings.safeZoneMm}mm safe zone that survives trimming`}
+          >
+            Safe Zone
+          </button>
           <button
             onClick={autoArrange}
             className="px-3 py-1 bg-blue-100 text-blue-700 rounded text-sm hover:bg-blue-200"
@@ -377,195 +415,234 @@ export function CardDesigner() {
             className="border border-gray-300 shadow-sm"
             style={{
               width: CARD_WIDTH,
-              minHeight: CARD_HEIGHT,
-              padding: PADDING,
-              position: 'relative',
-              backgroundColor: cardBackground
+              height: CARD_HEIGHT,
+              position: 'relative'
             }}
           >
-            <GridLayout
-              className="layout"
-              layout={gridLayouts}
-              cols={GRID_COLS}
-              rowHeight={GRID_ROW_HEIGHT}
-              width={CARD_WIDTH - PADDING * 2}
-              onLayoutChange={handleLayoutChange}
-              draggableHandle=".drag-handle"
-              compactType={null}
-              preventCollision={false}
-              isResizable={true}
-              resizeHandles={['se']}
-            >
-              {allLayouts.map(layout => {
-                const style = getFieldStyle(layout.i)
-                const displayName = getDisplayName(layout.i)
-                const value = getFieldValue(layout.i)
-                const colors = evaluateColorRules(style.colorRules || [], currentRow)
-
-                return (
-                  <div
-                    key={layout.i}
-                    className={`relative group ${style.showBorder ? 'border border-gray-300 rounded' : ''}`}
-                    style={{
-                      backgroundColor: colors.backgroundColor || (style.showBorder ? '#fafafa' : 'transparent'),
-                      color: colors.textColor || 'inherit'
-                    }}
-                  >
-                    <div className="drag-handle cursor-move h-full flex flex-col p-1 overflow-hidden">
-                      {style.showLabel && (
-                        <div
-                          className="text-[10px] mb-0.5 truncate"
-                          style={{ color: colors.textColor ? colors.textColor : '#9ca3af' }}
-                        >
-                          {displayName}
-                        </div>
-                      )}
-                      <div
-                        className="flex-1 overflow-hidden leading-tight"
-                        style={{
-                          fontSize: style.fontSize,
-                          fontWeight: style.fontWeight,
-                          textAlign: style.textAlign
-                        }}
-                      >
-                        {renderMarkdown(String(value))}
-                      </div>
-                    </div>
-
-                    {/* Style controls on hover */}
-                    <div className="absolute -top-8 left-0 opacity-0 group-hover:opacity-100 bg-white shadow-lg rounded p-1 flex gap-1 z-20 border">
-                      <button
-                        onClick={() => updateFieldStyle(layout.i, {
-                          fontWeight: style.fontWeight === 'bold' ? 'normal' : 'bold'
-                        })}
-                        className={`w-6 h-6 text-xs rounded font-bold ${style.fontWeight === 'bold' ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'}`}
-                        title="Bold"
-                      >
-                        B
-                      </button>
-                      <button
-                        onClick={() => updateFieldStyle(layout.i, {
-                          fontSize: Math.min(20, style.fontSize + 1)
-                        })}
-                        className="w-6 h-6 text-xs rounded hover:bg-gray-100"
-                        title="Increase font"
-                      >
-                        +
-                      </button>
-                      <button
-                        onClick={() => updateFieldStyle(layout.i, {
-                          fontSize: Math.max(8, style.fontSize - 1)
-                        })}
-                        className="w-6 h-6 text-xs rounded hover:bg-gray-100"
-                        title="Decrease font"
-                      >
-                        -
-                      </button>
-                      <button
-                        onClick={() => updateFieldStyle(layout.i, { showLabel: !style.showLabel })}
-                        className={`w-6 h-6 text-xs rounded ${style.showLabel ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'}`}
-                        title="Toggle label"
-                      >
-                        L
-                      </button>
-                      <button
-                        onClick={() => updateFieldStyle(layout.i, { showBorder: !style.showBorder })}
-                        className={`w-6 h-6 text-xs rounded ${style.showBorder ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'}`}
-                        title="Toggle border"
-                      >
-                        []
-                      </button>
-                      <button
-                        onClick={() => setEditingRules(editingRules === layout.i ? null : layout.i)}
-                        className={`w-6 h-6 text-xs rounded ${(style.colorRules?.length || 0) > 0 ? 'bg-green-100 text-green-700' : 'hover:bg-gray-100'}`}
-                        title="Color rules"
-                      >
-                        C
-                      </button>
-                    </div>
+            {card && (
+              <div
+                className="absolute left-0 top-0 pointer-events-none"
+                style={{ transform: `scale(${canvasScale / PX_PER_MM})`, transformOrigin: 'top left' }}
+              >
+                <CardRenderer card={card} widthMm={cardSize.widthMm} heightMm={cardSize.heightMm} />
+              </div>
+            )}
+            {printSettings.showSafeZone && safeZoneInset > 0 && (
+              <div
+                className="absolute border border-dashed border-red-400 pointer-events-none"
+                style={{
+                  left: safeZoneInset,
+                  top: safeZoneInset,
+                  width: CARD_WIDTH - safeZoneInset * 2,
+                  height: CARD_HEIGHT - safeZoneInset * 2,
+                  zIndex: 10
+                }}
+                title="Safe zone"
+              />
+            )}
+            {side === 'back' && backFieldLayouts.length === 0 && (
+              <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400 pointer-events-none">
+                Card back is empty. Add fields to print on the reverse side.
+              </div>
+            )}
+            {/* Transparent handles over the rendered card for dragging and styling */}
+            <div className="absolute" style={{ left: gridInsetX, top: gridInsetY, zIndex: 6 }}>
+              <GridLayout
+                key={side}
+                className="layout"
+                layout={gridLayouts}
+                cols={GRID_COLS}
+                rowHeight={gridRowHeight}
+                width={gridWidth}
+                margin={[0, 0]}
+                containerPadding={[0, 0]}
+                onLayoutChange={handleLayoutChange}
+                onDragStart={(_layout, item) => { grabbedItemRef.current = item.i }}
+                onResizeStart={(_layout, item) => { grabbedItemRef.current = item.i }}
+                draggableHandle=".drag-handle"
+                compactType={null}
+                preventCollision={false}
+                isResizable={true}
+                resizeHandles={['se']}
+              >
+                {allLayouts.map(layout => {
+                  if (isStaticLayout(layout)) {
+                    return (
+                      <div key={layout.i} className="relative group hover:outline hover:outline-1 hover:outline-blue-300">
+                        <div className="drag-handle cursor-move h-full" />
 
-                    {/* Color rules editor */}
-                    {editingRules === layout.i && (
-                      <div className="absolute top-full left-0 mt-1 bg-white shadow-xl rounded-lg p-3 z-30 border w-80">
-                        <div className="flex justify-between items-center mb-2">
-                          <span className="font-medium text-sm">Color Rules</span>
+                        <div className="absolute -top-8 left-0 opacity-0 group-hover:opacity-100 bg-white shadow-lg rounded p-1 flex gap-1 z-20 border">
+                          <button
+                            onClick={() => setEditingElement(editingElement === layout.i ? null : layout.i)}
+                            className={`px-1 h-6 text-xs rounded ${editingElement === layout.i ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'}`}
+                            title="Edit element"
+                          >
+                            Edit
+                          </button>
                           <button
-                            onClick={() => setEditingRules(null)}
-                            className="text-gray-400 hover:text-gray-600"
+                            onClick={() => removeElement(layout.i)}
+                            className="w-6 h-6 text-xs rounded text-red-600 hover:bg-red-50"
+                            title="Remove element"
                           >
-                            x
+                            ×
                           </button>
                         </div>
 
-                        {(style.colorRules || []).map((rule, idx) => (
-                          <div key={idx} className="mb-2 p-2 bg-gray-50 rounded text-xs">
-                            <div className="flex gap-1 mb-1">
-                              <select
-                                value={rule.field}
-                                onChange={(e) => updateColorRule(layout.i, idx, { field: e.target.value })}
-                                className="flex-1 border rounded px-1 py-0.5"
-                              >
-                                {columns.map(col => (
-                                  <option key={col} value={col}>{col}</option>
-                                ))}
-                              </select>
-                              <select
-                                value={rule.operator}
-                                onChange={(e) => updateColorRule(layout.i, idx, { operator: e.target.value as ColorRule['operator'] })}
-                                className="border rounded px-1 py-0.5"
-                              >
-                                <option value="equals">=</option>
-                                <option value="contains">contains</option>
-                                <option value="notEmpty">not empty</option>
-                                <option value="empty">empty</option>
-                              </select>
-                            </div>
-                            {(rule.operator === 'equals' || rule.operator === 'contains') && (
-                              <input
-                                type="text"
-                                value={rule.value}
-                                onChange={(e) => updateColorRule(layout.i, idx, { value: e.target.value })}
-                                placeholder="Value..."
-                                className="w-full border rounded px-1 py-0.5 mb-1"
-                              />
-                            )}
-                            <div className="flex gap-1 items-center">
-                              <label className="text-gray-500">BG:</label>
-                              <input
-                                type="color"
-                                value={rule.backgroundColor}
-                                onChange={(e) => updateColorRule(layout.i, idx, { backgroundColor: e.target.value })}
-                                className="w-6 h-6 border rounded"
-                              />
-                              <label className="text-gray-500 ml-2">Text:</label>
-                              <input
-                                type="color"
-                                value={rule.textColor}
-                                onChange={(e) => updateColorRule(layout.i, idx, { textColor: e.target.value })}
-                                className="w-6 h-6 border rounded"
-                              />
+                        {editingElement === layout.i && (
+                          <div className="absolute top-full left-0 mt-1 bg-white shadow-xl rounded-lg p-3 z-30 border w-80">
+                            <div className="flex justify-between items-center mb-2">
+                              <span className="font-medium text-sm">{CARD_ELEMENT_LABELS[layout.element.type]}</span>
                               <button
-                                onClick={() => removeColorRule(layout.i, idx)}
-                                className="ml-auto text-red-500 hover:text-red-700"
+                                onClick={() => setEditingElement(null)}
+                                className="text-gray-400 hover:text-gray-600"
                               >
-                                Del
+                                x
                               </button>
                             </div>
+                            <CardElementEditor
+                              element={layout.element}
+                              onChange={(element) => updateElement(layout.i, element)}
+                              columns={columns}
+                            />
                           </div>
-                        ))}
+                        )}
+                      </div>
+                    )
+                  }
+
+                  const style = getFieldStyle(fieldStyles, layout.i)
+                  const visibility = fieldVisibility.get(layout.i) ?? 'visible'
+
+                  return (
+                    <div key={layout.i} className="relative group hover:outline hover:outline-1 hover:outline-blue-300">
+                      <div className="drag-handle cursor-move h-full" />
+                      {visibility !== 'visible' && (
+                        <div className="absolute bottom-0.5 right-1 px-1 rounded bg-gray-700 text-white text-[10px] pointer-events-none">
+                          {visibility === 'collapsed' ? 'Hidden · collapses' : 'Hidden'} on this ticket
+                        </div>
+                      )}
 
+                      {/* Style controls on hover */}
+                      <div className="absolute -top-8 left-0 opacity-0 group-hover:opacity-100 bg-white shadow-lg rounded p-1 flex gap-1 z-20 border">
+                        <button
+                          onClick={() => updateFieldStyle(layout.i, {
+                            fontWeight: style.fontWeight === 'bold' ? 'normal' : 'bold'
+                          })}
+                          className={`w-6 h-6 text-xs rounded font-bold ${style.fontWeight === 'bold' ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'}`}
+                          title="Bold"
+                        >
+                          B
+                        </button>
+                        <button
+                          onClick={() => updateFieldStyle(layout.i, {
+                            fontSize: Math.min(24, style.fontSize + 1)
+                          })}
+                          className="w-6 h-6 text-xs rounded hover:bg-gray-100"
+                          title="Increase font"
+                        >
+                          +
+                        </button>
+                        <button
+                          onClick={() => updateFieldStyle(layout.i, {
+                            fontSize: Math.max(8, style.fontSize - 1)
+                          })}
+                          className="w-6 h-6 text-xs rounded hover:bg-gray-100"
+                          title="Decrease font"
+                        >
+                          -
+                        </button>
                         <button
-                          onClick={() => addColorRule(layout.i)}
-                          className="w-full py-1 text-xs bg-blue-50 text-blue-600 rounded hover:bg-blue-100"
+                          onClick={() => updateFieldStyle(layout.i, { showLabel: !style.showLabel })}
+                          className={`w-6 h-6 text-xs rounded ${style.showLabel ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'}`}
+                          title="Toggle label"
                         >
-                          + Add Rule
+                          L
                         </button>
+                        <button
+                          onClick={() => updateFieldStyle(layout.i, { showBorder: !style.showBorder })}
+                          className={`w-6 h-6 text-xs rounded ${style.showBorder ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100'}`}
+                          title="Toggle border"
+                        >
+                          []
+                        </button>
+                        <button
+                          onClick={() => setEditingRules(editingRules === layout.i ? null : layout.i)}
+                          className={`w-6 h-6 text-xs rounded ${(style.colorRules?.length || 0) > 0 ? 'bg-green-100 text-green-700' : 'hover:bg-gray-100'}`}
+                          title="Color rules"
+                        >
+                          C
+                        </button>
+                        {side === 'back' && (
+                          <button
+                            onClick={() => removeBackField(layout.i)}
+                            className="w-6 h-6 text-xs rounded text-red-600 hover:bg-red-50"
+                            title="Remove from back"
+                          >
+                            ×
+                          </button>
+                        )}
                       </div>
-                    )}
-                  </div>
-                )
-              })}
-            </GridLayout>
+
+                      {/* Color rules editor */}
+                      {editingRules === layout.i && (
+                        <div className="absolute top-full left-0 mt-1 bg-white shadow-xl rounded-lg p-3 z-30 border w-80">
+                          <div className="flex justify-between items-center mb-2">
+                            <span className="font-medium text-sm">Color Rules</span>
+                            <button
+                              onClick={() => setEditingRules(null)}
+                              className="text-gray-400 hover:text-gray-600"
+                            >
+                              x
+                            </button>
+                          </div>
+
+                          {(style.colorRules || []).map((rule, idx) => (
+                            <div key={idx} className="mb-2 p-2 bg-gray-50 rounded text-xs">
+                              <div className="mb-1">
+                                <ConditionEditor
+                                  group={rule.condition}
+                                  onChange={(condition) => updateColorRule(layout.i, idx, { condition })}
+                                  columns={columns}
+                                />
+                              </div>
+                              <div className="flex gap-1 items-center">
+                                <label className="text-gray-500">BG:</label>
+                                <input
+                                  type="color"
+                                  value={rule.backgroundColor}
+                                  onChange={(e) => updateColorRule(layout.i, idx, { backgroundColor: e.target.value })}
+                                  className="w-6 h-6 border rounded"
+                                />
+                                <label className="text-gray-500 ml-2">Text:</label>
+                                <input
+                                  type="color"
+                                  value={rule.textColor}
+                                  onChange={(e) => updateColorRule(layout.i, idx, { textColor: e.target.value })}
+                                  className="w-6 h-6 border rounded"
+                                />
+                                <button
+                                  onClick={() => removeColorRule(layout.i, idx)}
+                                  className="ml-auto text-red-500 hover:text-red-700"
+                                >
+                                  Del
+                                </button>
+                              </div>
+                            </div>
+                          ))}
+
+                          <button
+                            onClick={() => addColorRule(layout.i)}
+                            className="w-full py-1 text-xs bg-blue-50 text-blue-600 rounded hover:bg-blue-100"
+                          >
+                            + Add Rule
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </GridLayout>
+            </div>
           </div>
         </div>
       </div>
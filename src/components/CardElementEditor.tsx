@@ -0,0 +1,206 @@
+import { useRef, useState } from 'react'
+import { CardElement, CodeFormat } from '../types'
+import { readImageFile } from '../utils/cardElements'
+import { CODE_FORMAT_LABELS } from '../utils/barcodes'
+
+interface CardElementEditorProps {
+  element: CardElement
+  onChange: (element: CardElement) => void
+  columns: string[]
+}
+
+export function CardElementEditor({ element, onChange, columns }: CardElementEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const textRef = useRef<HTMLTextAreaElement>(null)
+  const [imageError, setImageError] = useState<string>()
+
+  const handleImageFile = async (file: File | undefined) => {
+    if (!file || element.type !== 'image') return
+    try {
+      const src = await readImageFile(file)
+      setImageError(undefined)
+      onChange({ ...element, src })
+    } catch (error) {
+      setImageError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  // Insert at the cursor so placeholders can go mid-sentence
+  const insertPlaceholder = (column: string) => {
+    if (element.type !== 'text') return
+    const placeholder = `{{${column}}}`
+    const textarea = textRef.current
+    const start = textarea?.selectionStart ?? element.text.length
+    const end = textarea?.selectionEnd ?? element.text.length
+    onChange({ ...element, text: element.text.slice(0, start) + placeholder + element.text.slice(end) })
+  }
+
+  const placeholderSelect = (onPick: (column: string) => void) => (
+    <select
+      value=""
+      onChange={(e) => e.target.value && onPick(e.target.value)}
+      className="w-full border rounded px-1 py-0.5 text-xs"
+    >
+      <option value="">Insert field placeholder...</option>
+      {columns.map(col => (
+        <option key={col} value={col}>{col}</option>
+      ))}
+    </select>
+  )
+
+  const colorInput = (label: string, value: string, update: (color: string) => void) => (
+    <label className="flex items-center gap-1">
+      <span className="text-gray-500">{label}:</span>
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => update(e.target.value)}
+        className="w-6 h-6 border rounded cursor-pointer"
+      />
+    </label>
+  )
+
+  const numberInput = (label: string, value: number, min: number, max: number, update: (value: number) => void) => (
+    <label className="flex items-center gap-1">
+      <span className="text-gray-500">{label}:</span>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        onChange={(e) => update(Math.min(max, Math.max(min, Number(e.target.value) || 0)))}
+        className="w-14 border rounded px-1 py-0.5 text-xs"
+      />
+    </label>
+  )
+
+  switch (element.type) {
+    case 'text':
+      return (
+        <div className="space-y-2 text-xs">
+          <textarea
+            ref={textRef}
+            value={element.text}
+            onChange={(e) => onChange({ ...element, text: e.target.value })}
+            rows={3}
+            className="w-full border rounded px-2 py-1 text-xs"
+          />
+          {placeholderSelect(insertPlaceholder)}
+          <div className="flex flex-wrap gap-2 items-center">
+            {numberInput('Size', element.fontSize, 6, 72, fontSize => onChange({ ...element, fontSize }))}
+            <button
+              onClick={() => onChange({ ...element, fontWeight: element.fontWeight === 'bold' ? 'normal' : 'bold' })}
+              className={`px-2 py-0.5 rounded border font-bold ${element.fontWeight === 'bold' ? 'bg-blue-100 border-blue-300' : 'border-gray-300'}`}
+            >
+              B
+            </button>
+            <select
+              value={element.textAlign}
+              onChange={(e) => onChange({ ...element, textAlign: e.target.value as typeof element.textAlign })}
+              className="border rounded px-1 py-0.5 text-xs"
+            >
+              <option value="left">Left</option>
+              <option value="center">Center</option>
+              <option value="right">Right</option>
+            </select>
+            {colorInput('Color', element.color, color => onChange({ ...element, color }))}
+          </div>
+        </div>
+      )
+    case 'image':
+      return (
+        <div className="space-y-2 text-xs">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              handleImageFile(e.target.files?.[0])
+              e.target.value = ''
+            }}
+          />
+          <div className="flex gap-2 items-center">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-2 py-1 bg-blue-50 text-blue-600 rounded hover:bg-blue-100"
+            >
+              {element.src ? 'Replace image...' : 'Upload image...'}
+            </button>
+            <select
+              value={element.fit}
+              onChange={(e) => onChange({ ...element, fit: e.target.value as typeof element.fit })}
+              className="border rounded px-1 py-0.5 text-xs"
+            >
+              <option value="contain">Fit</option>
+              <option value="cover">Fill</option>
+            </select>
+          </div>
+          {imageError && <p className="text-red-600">{imageError}</p>}
+        </div>
+      )
+    case 'line':
+      return (
+        <div className="flex flex-wrap gap-2 items-center text-xs">
+          <select
+            value={element.orientation}
+            onChange={(e) => onChange({ ...element, orientation: e.target.value as typeof element.orientation })}
+            className="border rounded px-1 py-0.5 text-xs"
+          >
+            <option value="horizontal">Horizontal</option>
+            <option value="vertical">Vertical</option>
+          </select>
+          {numberInput('Width', element.thickness, 1, 20, thickness => onChange({ ...element, thickness }))}
+          {colorInput('Color', element.color, color => onChange({ ...element, color }))}
+        </div>
+      )
+    case 'box':
+      return (
+        <div className="flex flex-wrap gap-2 items-center text-xs">
+          {colorInput('Fill', element.fillColor, fillColor => onChange({ ...element, fillColor }))}
+          {colorInput('Border', element.borderColor, borderColor => onChange({ ...element, borderColor }))}
+          {numberInput('Border width', element.borderWidth, 0, 20, borderWidth => onChange({ ...element, borderWidth }))}
+          {numberInput('Radius', element.borderRadius, 0, 50, borderRadius => onChange({ ...element, borderRadius }))}
+        </div>
+      )
+    case 'code':
+      return (
+        <div className="space-y-2 text-xs">
+          <div className="flex gap-2 items-center">
+            <select
+              value={element.format}
+              onChange={(e) => onChange({ ...element, format: e.target.value as CodeFormat })}
+              className="border rounded px-1 py-0.5 text-xs"
+            >
+              {(Object.keys(CODE_FORMAT_LABELS) as CodeFormat[]).map(format => (
+                <option key={format} value={format}>{CODE_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+            {colorInput('Color', element.color, color => onChange({ ...element, color }))}
+          </div>
+          <label className="block">
+            <span className="text-gray-500">Base URL (optional)</span>
+            <input
+              type="text"
+              value={element.baseUrl}
+              onChange={(e) => onChange({ ...element, baseUrl: e.target.value })}
+              placeholder="https://jira.example.com/browse/"
+              className="w-full border rounded px-2 py-1 text-xs"
+            />
+          </label>
+          <label className="block">
+            <span className="text-gray-500">Value</span>
+            <input
+              type="text"
+              value={element.value}
+              onChange={(e) => onChange({ ...element, value: e.target.value })}
+              placeholder="{{Key}}"
+              className="w-full border rounded px-2 py-1 text-xs font-mono"
+            />
+          </label>
+          {placeholderSelect(column => onChange({ ...element, value: element.value + `{{${column}}}` }))}
+          <p className="text-gray-400">Generated on this computer; the base URL is saved with the template.</p>
+        </div>
+      )
+  }
+}
@@ -0,0 +1,86 @@
+import { CardElement, ColumnSchema, TicketRow } from '../types'
+import { fillPlaceholders, getCodeText } from '../utils/cardElements'
+import { renderCodeSvg, svgToDataUrl } from '../utils/barcodes'
+
+interface CardElementViewProps {
+  element: CardElement
+  row: TicketRow | null
+  columnSchema: ColumnSchema
+}
+
+/**
+ * Draws a design element filling its grid cell; shared by the designer and print
+ */
+export function CardElementView({ element, row, columnSchema }: CardElementViewProps) {
+  switch (element.type) {
+    case 'text':
+      return (
+        <div
+          className="w-full h-full overflow-hidden whitespace-pre-wrap"
+          style={{
+            fontSize: element.fontSize,
+            fontWeight: element.fontWeight,
+            textAlign: element.textAlign,
+            color: element.color,
+            lineHeight: 1.3,
+            wordWrap: 'break-word'
+          }}
+        >
+          {fillPlaceholders(element.text, row, columnSchema)}
+        </div>
+      )
+    case 'image':
+      return element.src ? (
+        <img
+          src={element.src}
+          alt=""
+          draggable={false}
+          className="w-full h-full"
+          style={{ objectFit: element.fit }}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center text-xs text-gray-400 border border-dashed border-gray-300">
+          No image
+        </div>
+      )
+    case 'line':
+      return (
+        <div className="w-full h-full flex items-center justify-center">
+          <div
+            style={element.orientation === 'horizontal'
+              ? { width: '100%', height: element.thickness, backgroundColor: element.color }
+              : { width: element.thickness, height: '100%', backgroundColor: element.color }}
+          />
+        </div>
+      )
+    case 'box':
+      return (
+        <div
+          className="w-full h-full"
+          style={{
+            backgroundColor: element.fillColor,
+            border: element.borderWidth > 0 ? `${element.borderWidth}px solid ${element.borderColor}` : undefined,
+            borderRadius: element.borderRadius,
+            boxSizing: 'border-box'
+          }}
+        />
+      )
+    case 'code': {
+      const text = getCodeText(element, row, columnSchema)
+      const svg = renderCodeSvg(element.format, text, element.color)
+      return svg ? (
+        <img
+          src={svgToDataUrl(svg)}
+          alt={text}
+          draggable={false}
+          className="w-full h-full"
+          style={{ objectFit: 'contain' }}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center text-xs text-gray-400 border border-dashed border-gray-300 text-center">
+          {text ? 'Cannot encode value' : 'No value'}
+        </div>
+      )
+    }
+  }
+}
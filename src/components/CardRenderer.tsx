@@ -0,0 +1,113 @@
+import { HTMLAttributes, ReactNode } from 'react'
+import { renderMarkdown } from '../utils/markdownRenderer'
+import { SCALE_BORDER_MM } from '../utils/colorScale'
+import { CARD_PADDING_PERCENT, FIELD_PADDING_PX, GRID_COLS, ResolvedCard } from '../utils/cardLayout'
+import { CardElementView } from './CardElementView'
+import { FitText } from './FitText'
+
+interface CardRendererProps extends Omit<HTMLAttributes<HTMLDivElement>, 'children'> {
+  card: ResolvedCard
+  widthMm: number
+  heightMm: number
+  onFieldOverflow?: (layoutId: string, clipped: boolean) => void
+  children?: ReactNode  // Drawn on top of the card (numbering, selection, guides)
+}
+
+/**
+ * Draws a resolved card at its printed size. The designer, print and image
+ * export all render cards through here, so they look the same everywhere;
+ * the designer scales the whole card to fit its canvas.
+ */
+export function CardRenderer({ card, widthMm, heightMm, onFieldOverflow, children, style, ...props }: CardRendererProps) {
+  const contentPercent = 100 - 2 * CARD_PADDING_PERCENT
+
+  return (
+    <div
+      {...props}
+      style={{
+        ...style,
+        width: `${widthMm}mm`,
+        height: `${heightMm}mm`,
+        position: 'relative',
+        boxSizing: 'border-box',
+        backgroundColor: card.backgroundColor,
+        overflow: 'hidden'
+      }}
+    >
+      {card.borderColor && (
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{ border: `${SCALE_BORDER_MM}mm solid ${card.borderColor}`, zIndex: 4 }}
+        />
+      )}
+
+      {card.items.map(item => {
+        const { layout } = item
+        const position = {
+          left: `${CARD_PADDING_PERCENT + (layout.x / GRID_COLS) * contentPercent}%`,
+          top: `${CARD_PADDING_PERCENT + (layout.y / card.gridRows) * contentPercent}%`,
+          width: `${(layout.w / GRID_COLS) * contentPercent}%`,
+          height: `${(layout.h / card.gridRows) * contentPercent}%`
+        }
+
+        if (item.kind === 'element') {
+          return (
+            <div key={layout.i} className="absolute" style={position}>
+              <CardElementView element={item.element} row={card.row} columnSchema={card.columnSchema} />
+            </div>
+          )
+        }
+
+        const { style: fieldStyle } = item
+        return (
+          <div
+            key={layout.i}
+            className={`absolute ${fieldStyle.showBorder ? 'border border-gray-400 rounded' : ''}`}
+            style={{
+              ...position,
+              padding: FIELD_PADDING_PX,
+              boxSizing: 'border-box',
+              backgroundColor: item.backgroundColor,
+              color: item.textColor || 'inherit',
+              overflow: 'hidden',
+              display: 'flex',
+              flexDirection: 'column',
+              // Only the designer keeps hidden fields, faded so they can still be edited
+              opacity: item.visibility === 'visible' ? undefined : 0.4
+            }}
+          >
+            {fieldStyle.showLabel && (
+              <div
+                className="truncate mb-1"
+                style={{
+                  fontSize: item.labelSize,
+                  fontWeight: 500,
+                  color: item.labelColor,
+                  flexShrink: 0
+                }}
+              >
+                {item.label}
+              </div>
+            )}
+            <FitText
+              text={item.text}
+              fontSize={item.fontSize}
+              autoFit={fieldStyle.autoFit}
+              style={{
+                fontWeight: fieldStyle.fontWeight,
+                textAlign: fieldStyle.textAlign,
+                lineHeight: 1.3,
+                wordWrap: 'break-word'
+              }}
+              onOverflowChange={onFieldOverflow && ((clipped) => onFieldOverflow(layout.i, clipped))}
+            >
+              {renderMarkdown(item.text)}
+            </FitText>
+          </div>
+        )
+      })}
+
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+import { useDataStore } from '../stores/dataStore'
+import { SizeUnit } from '../types'
+import {
+  CARD_SIZE_GROUPS,
+  createCustomCardSize,
+  findCardSizePreset,
+  formatCardSize,
+  fromUnit,
+  toUnit
+} from '../utils/cardSizes'
+
+interface CardSizePickerProps {
+  compact?: boolean  // Single-line variant for toolbars
+}
+
+export function CardSizePicker({ compact = false }: CardSizePickerProps) {
+  const cardSize = useDataStore(state => state.cardSize)
+  const setCardSize = useDataStore(state => state.setCardSize)
+
+  const isCustom = cardSize.id === 'custom'
+
+  const handleSelect = (id: string) => {
+    if (id === 'custom') {
+      setCardSize(createCustomCardSize(cardSize.widthMm, cardSize.heightMm, cardSize.unit))
+      return
+    }
+    const preset = findCardSizePreset(id)
+    if (preset) setCardSize(preset)
+  }
+
+  const handleDimensionChange = (dimension: 'widthMm' | 'heightMm', value: string) => {
+    const parsed = Number(value)
+    if (!parsed || parsed <= 0) return
+    setCardSize({ ...cardSize, [dimension]: fromUnit(parsed, cardSize.unit) })
+  }
+
+  const handleRotate = () => {
+    setCardSize({ ...cardSize, widthMm: cardSize.heightMm, heightMm: cardSize.widthMm })
+  }
+
+  return (
+    <div className={compact ? 'flex items-center gap-1' : 'space-y-1'}>
+      <div className="flex items-center gap-1">
+        <select
+          value={cardSize.id}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 px-2 py-1 bg-white border rounded text-sm"
+          title={formatCardSize(cardSize)}
+        >
+          {CARD_SIZE_GROUPS.map(group => (
+            <optgroup key={group.label} label={group.label}>
+              {group.sizes.map(size => (
+                <option key={size.id} value={size.id}>{size.label}</option>
+              ))}
+            </optgroup>
+          ))}
+          <option value="custom">Custom size...</option>
+        </select>
+        <button
+          onClick={handleRotate}
+          disabled={!!cardSize.sheet}
+          className="px-2 py-1 bg-gray-100 rounded text-sm hover:bg-gray-200 disabled:opacity-50"
+          title="Swap width and height"
+        >
+          ⟲
+        </button>
+      </div>
+
+      {isCustom ? (
+        <div className="flex items-center gap-1 text-xs">
+          <input
+            type="number"
+            min={0}
+            step={cardSize.unit === 'in' ? 0.125 : 1}
+            value={toUnit(cardSize.widthMm, cardSize.unit)}
+            onChange={(e) => handleDimensionChange('widthMm', e.target.value)}
+            className="w-16 border rounded px-1 py-0.5"
+            title="Width"
+          />
+          <span className="text-gray-500">×</span>
+          <input
+            type="number"
+            min={0}
+            step={cardSize.unit === 'in' ? 0.125 : 1}
+            value={toUnit(cardSize.heightMm, cardSize.unit)}
+            onChange={(e) => handleDimensionChange('heightMm', e.target.value)}
+            className="w-16 border rounded px-1 py-0.5"
+            title="Height"
+          />
+          <select
+            value={cardSize.unit}
+            onChange={(e) => setCardSize({ ...cardSize, unit: e.target.value as SizeUnit })}
+            className="border rounded px-1 py-0.5"
+          >
+            <option value="mm">mm</option>
+            <option value="in">in</option>
+          </select>
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500 whitespace-nowrap">{formatCardSize(cardSize)}</div>
+      )}
+    </div>
+  )
+}
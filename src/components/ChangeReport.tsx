@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { useDataStore } from '../stores/dataStore'
+import { TicketChangeStatus } from '../types'
+
+const STATUS_STYLES: Record<TicketChangeStatus, string> = {
+  new: 'bg-green-100 text-green-700',
+  changed: 'bg-amber-100 text-amber-700',
+  unchanged: 'bg-gray-100 text-gray-500',
+  removed: 'bg-red-100 text-red-700'
+}
+
+const MAX_VALUE_LENGTH = 80
+
+function truncate(value: string): string {
+  return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value
+}
+
+export function ChangeReport() {
+  const importChanges = useDataStore(state => state.importChanges)
+  const dismissImportChanges = useDataStore(state => state.dismissImportChanges)
+  const [showDetails, setShowDetails] = useState(false)
+
+  if (!importChanges) return null
+
+  const { counts, tickets, addedColumns, removedColumns } = importChanges
+  const listed = Object.values(tickets).filter(ticket => ticket.status !== 'unchanged')
+
+  return (
+    <div className="no-print bg-white rounded-lg shadow px-3 py-2 mb-4 text-sm">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-xs font-medium text-gray-600">
+          Since import of {new Date(importChanges.previousImportedAt).toLocaleString()}:
+        </span>
+        {(['new', 'changed', 'removed', 'unchanged'] as const).map(status => (
+          <span key={status} className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[status]}`}>
+            {counts[status]} {status}
+          </span>
+        ))}
+        <div className="ml-auto flex gap-3 text-xs">
+          {listed.length > 0 && (
+            <button onClick={() => setShowDetails(!showDetails)} className="text-blue-600 hover:underline">
+              {showDetails ? 'Hide details' : 'Show details'}
+            </button>
+          )}
+          <button onClick={dismissImportChanges} className="text-gray-500 hover:text-gray-700">
+            Dismiss
+          </button>
+        </div>
+      </div>
+
+      {showDetails && (
+        <div className="mt-2 max-h-72 overflow-y-auto border-t pt-2 space-y-2 text-xs">
+          {(addedColumns.length > 0 || removedColumns.length > 0) && (
+            <p className="text-gray-500">
+              {addedColumns.length > 0 && `New columns: ${addedColumns.join(', ')}. `}
+              {removedColumns.length > 0 && `Missing columns: ${removedColumns.join(', ')}.`}
+            </p>
+          )}
+          {listed.map(ticket => (
+            <div key={ticket.key}>
+              <span className={`px-1.5 py-0.5 rounded mr-2 ${STATUS_STYLES[ticket.status]}`}>{ticket.status}</span>
+              <span className="font-mono font-medium">{ticket.key}</span>
+              {ticket.fieldChanges.length > 0 && (
+                <ul className="ml-4 mt-1 space-y-0.5 text-gray-600">
+                  {ticket.fieldChanges.map(change => (
+                    <li key={change.field}>
+                      <span className="font-medium">{change.field}:</span>{' '}
+                      <span className="line-through text-red-600">{truncate(change.before) || '(empty)'}</span>
+                      {' → '}
+                      <span className="text-green-700">{truncate(change.after) || '(empty)'}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import { useId } from 'react'
+import { ConditionGroup, ConditionOperator, RuleCondition } from '../types'
+import { CONDITION_OPERATORS, VALUELESS_OPERATORS, isConditionGroup } from '../utils/ruleEvaluator'
+
+const DATE_OPERATORS: ConditionOperator[] = ['before', 'after']
+
+interface ConditionEditorProps {
+  group: ConditionGroup
+  onChange: (group: ConditionGroup) => void
+  columns: string[]
+  getUniqueValues?: (field: string) => string[]
+  depth?: number
+}
+
+export function newCondition(field: string): RuleCondition {
+  return { field, operator: 'equals', value: '' }
+}
+
+/**
+ * Edits an AND/OR group of conditions. One level of nested groups is offered,
+ * which covers "A and (B or C)".
+ */
+export function ConditionEditor({ group, onChange, columns, getUniqueValues, depth = 0 }: ConditionEditorProps) {
+  const listId = useId()
+
+  const updateItem = (index: number, item: RuleCondition | ConditionGroup) => {
+    const conditions = [...group.conditions]
+    conditions[index] = item
+    onChange({ ...group, conditions })
+  }
+
+  const removeItem = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })
+  }
+
+  const renderCondition = (condition: RuleCondition, index: number) => {
+    const update = (updates: Partial<RuleCondition>) => updateItem(index, { ...condition, ...updates })
+    const valueType = DATE_OPERATORS.includes(condition.operator) ? 'date'
+      : condition.operator === 'withinDays' ? 'number'
+      : 'text'
+    const suggestions = (condition.operator === 'equals' || condition.operator === 'notEquals') && getUniqueValues
+      ? getUniqueValues(condition.field)
+      : []
+
+    return (
+      <div key={index} className="flex flex-wrap gap-1 items-center">
+        <select
+          value={condition.field}
+          onChange={(e) => update({ field: e.target.value })}
+          className="flex-1 min-w-0 border rounded px-1 py-0.5 text-xs"
+        >
+          {columns.map(col => (
+            <option key={col} value={col}>{col}</option>
+          ))}
+        </select>
+        <select
+          value={condition.operator}
+          onChange={(e) => update({ operator: e.target.value as ConditionOperator })}
+          className="border rounded px-1 py-0.5 text-xs"
+        >
+          {CONDITION_OPERATORS.map(op => (
+            <option key={op.value} value={op.value}>{op.label}</option>
+          ))}
+        </select>
+        {!VALUELESS_OPERATORS.includes(condition.operator) && (
+          <input
+            type={valueType}
+            value={condition.value}
+            onChange={(e) => update({ value: e.target.value })}
+            placeholder={condition.operator === 'inList' ? 'a, b, c' : condition.operator === 'withinDays' ? 'Days' : 'Value...'}
+            list={suggestions.length > 0 ? `${listId}-${index}` : undefined}
+            className="flex-1 min-w-[4rem] border rounded px-1 py-0.5 text-xs"
+          />
+        )}
+        {condition.operator === 'between' && (
+          <>
+            <span className="text-gray-500">and</span>
+            <input
+              type="text"
+              value={condition.valueTo ?? ''}
+              onChange={(e) => update({ valueTo: e.target.value })}
+              placeholder="Value..."
+              className="flex-1 min-w-[4rem] border rounded px-1 py-0.5 text-xs"
+            />
+          </>
+        )}
+        {suggestions.length > 0 && (
+          <datalist id={`${listId}-${index}`}>
+            {suggestions.map(val => <option key={val} value={val} />)}
+          </datalist>
+        )}
+        <button
+          onClick={() => removeItem(index)}
+          className="text-red-500 hover:text-red-700 text-xs"
+          title="Remove condition"
+        >
+          ✕
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {group.conditions.length > 1 && (
+        <div className="flex items-center gap-1 text-gray-500">
+          <select
+            value={group.match}
+            onChange={(e) => onChange({ ...group, match: e.target.value as ConditionGroup['match'] })}
+            className="border rounded px-1 py-0.5 text-xs"
+          >
+            <option value="all">All</option>
+            <option value="any">Any</option>
+          </select>
+          of these match
+        </div>
+      )}
+
+      {group.conditions.map((item, index) => isConditionGroup(item) ? (
+        <div key={index} className="flex gap-1 items-start pl-2 border-l-2 border-blue-200">
+          <div className="flex-1">
+            <ConditionEditor
+              group={item}
+              onChange={(updated) => updateItem(index, updated)}
+              columns={columns}
+              getUniqueValues={getUniqueValues}
+              depth={depth + 1}
+            />
+          </div>
+          <button
+            onClick={() => removeItem(index)}
+            className="text-red-500 hover:text-red-700 text-xs"
+            title="Remove group"
+          >
+            ✕
+          </button>
+        </div>
+      ) : renderCondition(item, index))}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, newCondition(columns[0] || '')] })}
+          className="text-blue-600 hover:text-blue-700"
+        >
+          + Condition
+        </button>
+        {depth === 0 && (
+          <button
+            onClick={() => onChange({
+              ...group,
+              conditions: [...group.conditions, {
+                match: group.match === 'all' ? 'any' : 'all',
+                conditions: [newCondition(columns[0] || '')]
+              }]
+            })}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            + Group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
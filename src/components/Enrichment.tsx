@@ -1,5 +1,6 @@
 import React, { useMemo, useState } from 'react'
 import { useDataStore } from '../stores/dataStore'
+import { formatCellValue } from '../utils/cellValues'
 
 export function Enrichment() {
   const columns = useDataStore(state => state.columns)
@@ -18,9 +19,9 @@ export function Enrichment() {
     if (!enrichmentGroup) return []
     const values = new Set<string>()
     rows.forEach(row => {
-      const val = row[enrichmentGroup.groupField]
-      if (val !== null && val !== undefined && val !== '') {
-        values.add(String(val))
+      const val = formatCellValue(row[enrichmentGroup.groupField])
+      if (val !== '') {
+        values.add(val)
       }
     })
     return Array.from(values).sort()
@@ -31,9 +32,8 @@ export function Enrichment() {
     if (!enrichmentGroup) return {}
     const counts: Record<string, number> = {}
     rows.forEach(row => {
-      const val = row[enrichmentGroup.groupField]
-      if (val !== null && val !== undefined && val !== '') {
-        const key = String(val)
+      const key = formatCellValue(row[enrichmentGroup.groupField])
+      if (key !== '') {
         counts[key] = (counts[key] || 0) + 1
       }
     })
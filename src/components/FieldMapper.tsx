@@ -1,12 +1,17 @@
 import { useMemo } from 'react'
-import { useDataStore } from '../stores/dataStore'
+import { getEditedDesign, useDataStore } from '../stores/dataStore'
+import { ColumnType } from '../types'
+import { COLUMN_TYPE_LABELS } from '../utils/columnTypes'
+import { isStaticLayout } from '../utils/cardElements'
 
 export function FieldMapper() {
   const fieldMappings = useDataStore(state => state.fieldMappings)
   const updateFieldMapping = useDataStore(state => state.updateFieldMapping)
   const setFieldMappings = useDataStore(state => state.setFieldMappings)
-  const fieldLayouts = useDataStore(state => state.fieldLayouts)
+  const fieldLayouts = useDataStore(state => getEditedDesign(state).fieldLayouts)
   const setFieldLayouts = useDataStore(state => state.setFieldLayouts)
+  const columnSchema = useDataStore(state => state.columnSchema)
+  const setColumnType = useDataStore(state => state.setColumnType)
 
   const selectedCount = useMemo(() =>
     fieldMappings.filter(m => m.enabled).length,
@@ -55,7 +60,7 @@ export function FieldMapper() {
       if (i % 2 === 1) currentY += 2
       return layout
     })
-    setFieldLayouts(newLayouts)
+    setFieldLayouts([...newLayouts, ...fieldLayouts.filter(isStaticLayout)])
   }
 
   const handleDeselectAll = () => {
@@ -63,8 +68,8 @@ export function FieldMapper() {
     const updatedMappings = fieldMappings.map(m => ({ ...m, enabled: false }))
     setFieldMappings(updatedMappings)
 
-    // Clear layouts
-    setFieldLayouts([])
+    // Clear field layouts; design elements stay
+    setFieldLayouts(fieldLayouts.filter(isStaticLayout))
   }
 
   const handleRename = (columnName: string, displayName: string) => {
@@ -115,8 +120,20 @@ export function FieldMapper() {
               className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
             />
             <div className="flex-1 min-w-0">
-              <div className="text-xs text-gray-400 truncate">
-                {mapping.columnName}
+              <div className="flex items-center gap-1">
+                <div className="flex-1 text-xs text-gray-400 truncate">
+                  {mapping.columnName}
+                </div>
+                <select
+                  value={columnSchema[mapping.columnName] || 'text'}
+                  onChange={(e) => setColumnType(mapping.columnName, e.target.value as ColumnType)}
+                  className="text-[10px] text-gray-500 bg-transparent border-0 p-0 focus:ring-0 cursor-pointer"
+                  title="Detected column type"
+                >
+                  {Object.entries(COLUMN_TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
               </div>
               <input
                 type="text"
@@ -1,8 +1,13 @@
 import React, { useCallback, useState } from 'react'
 import { loadWorkbook, parseSheet, WorkbookInfo } from '../services/excelParser'
+import { detectFileFormat, parseJiraExportFile } from '../services/jiraExportParser'
 import { useDataStore } from '../stores/dataStore'
+import { JiraImport } from './JiraImport'
+
+type DataSource = 'file' | 'jira'
 
 export function FileUpload() {
+  const [source, setSource] = useState<DataSource>('file')
   const [isDragging, setIsDragging] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [workbookInfo, setWorkbookInfo] = useState<WorkbookInfo | null>(null)
@@ -16,6 +21,13 @@ export function FileUpload() {
     setSelectedSheet('')
 
     try {
+      const format = await detectFileFormat(file)
+      if (format !== 'workbook') {
+        const result = await parseJiraExportFile(file, format)
+        setData(result.rows, result.columns)
+        return
+      }
+
       const info = await loadWorkbook(file)
 
       if (info.sheetNames.length === 1) {
@@ -137,41 +149,59 @@ export function FileUpload() {
 
   return (
     <div className="p-6">
-      <div
-        onDrop={handleDrop}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        className={`
-          border-2 border-dashed rounded-lg p-12 text-center cursor-pointer
-          transition-colors duration-200
-          ${isDragging
-            ? 'border-blue-500 bg-blue-50'
-            : 'border-gray-300 hover:border-gray-400'
-          }
-        `}
-      >
-        <input
-          type="file"
-          accept=".xlsx,.xls,.xlsm,.csv"
-          onChange={handleInputChange}
-          className="hidden"
-          id="file-input"
-        />
-        <label htmlFor="file-input" className="cursor-pointer">
-          <div className="text-4xl mb-4">📊</div>
-          <p className="text-lg font-medium text-gray-700">
-            Drop your Excel or CSV file here
-          </p>
-          <p className="text-sm text-gray-500 mt-2">
-            or click to browse
-          </p>
-          <p className="text-xs text-gray-400 mt-4">
-            Supported formats: .xlsx, .xlsm, .xls, .csv
-          </p>
-        </label>
+      <div className="flex gap-1 mb-4 border-b">
+        {([['file', 'Excel / CSV file'], ['jira', 'Jira']] as const).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => setSource(id)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              source === id
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
-      {error && (
+      {source === 'jira' ? <JiraImport /> : (
+        <div
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          className={`
+            border-2 border-dashed rounded-lg p-12 text-center cursor-pointer
+            transition-colors duration-200
+            ${isDragging
+              ? 'border-blue-500 bg-blue-50'
+              : 'border-gray-300 hover:border-gray-400'
+            }
+          `}
+        >
+          <input
+            type="file"
+            accept=".xlsx,.xls,.xlsm,.csv,.xml,.json"
+            onChange={handleInputChange}
+            className="hidden"
+            id="file-input"
+          />
+          <label htmlFor="file-input" className="cursor-pointer">
+            <div className="text-4xl mb-4">📊</div>
+            <p className="text-lg font-medium text-gray-700">
+              Drop your Excel, CSV or Jira export file here
+            </p>
+            <p className="text-sm text-gray-500 mt-2">
+              or click to browse
+            </p>
+            <p className="text-xs text-gray-400 mt-4">
+              Supported formats: .xlsx, .xlsm, .xls, .csv, Jira XML (RSS) and JSON
+            </p>
+          </label>
+        </div>
+      )}
+
+      {source === 'file' && error && (
         <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
           {error}
         </div>
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useDataStore } from '../stores/dataStore'
+import { filterRows, getFilterSuggestions } from '../utils/filterQuery'
+
+export function FilterBar() {
+  const rows = useDataStore(state => state.rows)
+  const columns = useDataStore(state => state.columns)
+  const columnSchema = useDataStore(state => state.columnSchema)
+  const sortConfig = useDataStore(state => state.sortConfig)
+  const setSortConfig = useDataStore(state => state.setSortConfig)
+
+  const [draft, setDraft] = useState(sortConfig.filter || '')
+  const [cursor, setCursor] = useState(0)
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Templates can replace the filter from outside
+  useEffect(() => {
+    setDraft(sortConfig.filter || '')
+  }, [sortConfig.filter])
+
+  const applied = useMemo(
+    () => filterRows(rows, sortConfig.filter, columns, columnSchema),
+    [rows, sortConfig.filter, columns, columnSchema]
+  )
+  const draftError = useMemo(
+    () => filterRows([], draft, columns, columnSchema).error,
+    [draft, columns, columnSchema]
+  )
+
+  const suggestions = useMemo(
+    () => showSuggestions ? getFilterSuggestions(draft, cursor, columns, rows) : { items: [], replaceFrom: 0 },
+    [showSuggestions, draft, cursor, columns, rows]
+  )
+
+  const applyFilter = (value: string) => {
+    const filter = value.trim() || undefined
+    if (filter !== sortConfig.filter) {
+      setSortConfig({ ...sortConfig, filter })
+    }
+  }
+
+  const acceptSuggestion = (item: string) => {
+    const before = draft.slice(0, suggestions.replaceFrom)
+    const after = draft.slice(cursor).replace(/^[^\s()]*/, '')
+    const inserted = `${item} `
+    const next = before + inserted + after.trimStart()
+    const nextCursor = before.length + inserted.length
+    setDraft(next)
+    setCursor(nextCursor)
+    setHighlighted(0)
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const items = suggestions.items
+    if (e.key === 'ArrowDown' && items.length > 0) {
+      e.preventDefault()
+      setHighlighted((highlighted + 1) % items.length)
+    } else if (e.key === 'ArrowUp' && items.length > 0) {
+      e.preventDefault()
+      setHighlighted((highlighted - 1 + items.length) % items.length)
+    } else if (items.length > 0 && showSuggestions &&
+               (e.key === 'Tab' || (e.key === 'Enter' && suggestions.replaceFrom < cursor))) {
+      // Enter completes a half-typed word; otherwise it applies the filter
+      e.preventDefault()
+      acceptSuggestion(items[Math.min(highlighted, items.length - 1)])
+    } else if (e.key === 'Enter') {
+      applyFilter(draft)
+      setShowSuggestions(false)
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false)
+    }
+  }
+
+  const isDirty = draft.trim() !== (sortConfig.filter || '')
+
+  return (
+    <div className="no-print bg-white rounded-lg shadow px-3 py-2 mb-4">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium text-gray-600">Filter</span>
+        <div className="relative flex-1">
+          <input
+            ref={inputRef}
+            type="text"
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value)
+              setCursor(e.target.selectionStart ?? e.target.value.length)
+              setShowSuggestions(true)
+              setHighlighted(0)
+            }}
+            onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+            onFocus={() => setShowSuggestions(true)}
+            onBlur={() => {
+              setShowSuggestions(false)
+              if (!draftError) applyFilter(draft)
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder='e.g. Status != Done AND "Story Points" >= 3 AND Labels ~ backend'
+            className={`w-full px-2 py-1 border rounded text-sm font-mono ${draftError && draft.trim() ? 'border-red-300' : ''}`}
+            spellCheck={false}
+          />
+          {showSuggestions && suggestions.items.length > 0 && (
+            <ul className="absolute z-20 left-0 mt-1 max-h-60 w-72 overflow-y-auto bg-white border rounded shadow-lg text-sm font-mono">
+              {suggestions.items.map((item, i) => (
+                <li
+                  key={item}
+                  onMouseDown={(e) => {
+                    e.preventDefault()  // Keep focus in the input
+                    acceptSuggestion(item)
+                  }}
+                  className={`px-2 py-1 cursor-pointer ${i === highlighted ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'}`}
+                >
+                  {item}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {sortConfig.filter && (
+          <button
+            onClick={() => {
+              setDraft('')
+              applyFilter('')
+            }}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Clear
+          </button>
+        )}
+        <span className="text-xs text-gray-500 whitespace-nowrap">
+          {applied.rows.length} of {rows.length} tickets
+        </span>
+      </div>
+      {draft.trim() && draftError ? (
+        <div className="mt-1 text-xs text-red-600">{draftError}</div>
+      ) : isDirty && (
+        <div className="mt-1 text-xs text-gray-400">Press Enter to apply</div>
+      )}
+    </div>
+  )
+}
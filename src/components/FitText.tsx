@@ -0,0 +1,96 @@
+import { CSSProperties, ReactNode, useLayoutEffect, useRef, useState } from 'react'
+import { AutoFitConfig } from '../types'
+
+interface FitTextProps {
+  text: string                // What children render; measuring reruns when it changes
+  fontSize: number            // Used when autoFit is off
+  autoFit?: AutoFitConfig
+  style?: CSSProperties
+  onOverflowChange?: (clipped: boolean) => void
+  children: ReactNode
+}
+
+// Sub-pixel rounding makes scrollHeight exceed clientHeight by 1 on text that fits
+const TOLERANCE_PX = 1
+
+function isOverflowing(el: HTMLElement): boolean {
+  return el.scrollHeight > el.clientHeight + TOLERANCE_PX || el.scrollWidth > el.clientWidth + TOLERANCE_PX
+}
+
+/**
+ * Text box that fills the remaining height of its field. With autoFit it
+ * measures the rendered text and picks the largest font size between min
+ * and max that fits; either way it reports whether text is still clipped.
+ */
+export function FitText({ text, fontSize, autoFit, style, onOverflowChange, children }: FitTextProps) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [fittedSize, setFittedSize] = useState<number | null>(null)
+  const [boxSize, setBoxSize] = useState({ width: 0, height: 0 })
+  const reportRef = useRef(onOverflowChange)
+  reportRef.current = onOverflowChange
+  const clippedRef = useRef(false)
+
+  // Field boxes change size when resized in the designer or when the card size changes
+  useLayoutEffect(() => {
+    const el = ref.current
+    if (!el || typeof ResizeObserver === 'undefined') return
+    const observer = new ResizeObserver(() => {
+      setBoxSize(prev => prev.width === el.clientWidth && prev.height === el.clientHeight
+        ? prev
+        : { width: el.clientWidth, height: el.clientHeight })
+    })
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [])
+
+  useLayoutEffect(() => {
+    const el = ref.current
+    if (!el) return
+
+    let size = fontSize
+    if (autoFit) {
+      // Binary search over whole pixel sizes; font size only grows text, so this is monotonic
+      let low = Math.min(autoFit.minFontSize, autoFit.maxFontSize)
+      let high = Math.max(autoFit.minFontSize, autoFit.maxFontSize)
+      size = low
+      while (low <= high) {
+        const mid = Math.floor((low + high) / 2)
+        el.style.fontSize = `${mid}px`
+        if (isOverflowing(el)) {
+          high = mid - 1
+        } else {
+          size = mid
+          low = mid + 1
+        }
+      }
+    }
+    el.style.fontSize = `${size}px`
+    setFittedSize(size)
+
+    const clipped = isOverflowing(el)
+    if (clipped !== clippedRef.current) {
+      clippedRef.current = clipped
+      reportRef.current?.(clipped)
+    }
+  }, [text, fontSize, autoFit?.minFontSize, autoFit?.maxFontSize, boxSize, style?.fontWeight, style?.lineHeight])
+
+  // A card that goes away no longer has clipped text
+  useLayoutEffect(() => () => {
+    if (clippedRef.current) reportRef.current?.(false)
+  }, [])
+
+  return (
+    <div
+      ref={ref}
+      style={{
+        ...style,
+        flex: 1,
+        minHeight: 0,
+        overflow: 'hidden',
+        fontSize: fittedSize ?? fontSize
+      }}
+    >
+      {children}
+    </div>
+  )
+}
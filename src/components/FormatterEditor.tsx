@@ -0,0 +1,234 @@
+import { DateFormatStyle, FieldFormatter, FieldFormatterType } from '../types'
+import { createFormatter, DATE_STYLE_LABELS, FORMATTER_LABELS } from '../utils/fieldFormatters'
+
+interface FormatterChainEditorProps {
+  formatters: FieldFormatter[]
+  onChange: (formatters: FieldFormatter[]) => void
+}
+
+/**
+ * Edits a field's formatter chain; formatters run top to bottom
+ */
+export function FormatterChainEditor({ formatters, onChange }: FormatterChainEditorProps) {
+  const update = (index: number, formatter: FieldFormatter) => {
+    const next = [...formatters]
+    next[index] = formatter
+    onChange(next)
+  }
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= formatters.length) return
+    const next = [...formatters]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const renderSettings = (formatter: FieldFormatter, index: number) => {
+    const inputClass = 'border rounded px-1 py-0.5 text-xs'
+    switch (formatter.type) {
+      case 'date':
+        return (
+          <>
+            <select
+              value={formatter.style}
+              onChange={(e) => update(index, { ...formatter, style: e.target.value as DateFormatStyle })}
+              className={inputClass}
+            >
+              {(Object.keys(DATE_STYLE_LABELS) as DateFormatStyle[]).map(style => (
+                <option key={style} value={style}>{DATE_STYLE_LABELS[style]}</option>
+              ))}
+            </select>
+            {formatter.style !== 'relative' && (
+              <label className="flex items-center gap-1 text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={formatter.includeTime}
+                  onChange={(e) => update(index, { ...formatter, includeTime: e.target.checked })}
+                />
+                Time
+              </label>
+            )}
+          </>
+        )
+      case 'number':
+        return (
+          <>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={formatter.decimals ?? ''}
+              onChange={(e) => update(index, { ...formatter, decimals: e.target.value === '' ? undefined : Number(e.target.value) })}
+              placeholder="Decimals"
+              className={`w-20 ${inputClass}`}
+            />
+            <label className="flex items-center gap-1 text-gray-500">
+              <input
+                type="checkbox"
+                checked={formatter.thousands}
+                onChange={(e) => update(index, { ...formatter, thousands: e.target.checked })}
+              />
+              1,000s
+            </label>
+          </>
+        )
+      case 'truncate':
+        return (
+          <input
+            type="number"
+            min={1}
+            value={formatter.maxLength}
+            onChange={(e) => update(index, { ...formatter, maxLength: Math.max(1, Number(e.target.value) || 1) })}
+            className={`w-16 ${inputClass}`}
+            title="Characters"
+          />
+        )
+      case 'firstLines':
+        return (
+          <input
+            type="number"
+            min={1}
+            value={formatter.lines}
+            onChange={(e) => update(index, { ...formatter, lines: Math.max(1, Number(e.target.value) || 1) })}
+            className={`w-16 ${inputClass}`}
+            title="Lines"
+          />
+        )
+      case 'case':
+        return (
+          <select
+            value={formatter.mode}
+            onChange={(e) => update(index, { ...formatter, mode: e.target.value as typeof formatter.mode })}
+            className={inputClass}
+          >
+            <option value="upper">UPPER</option>
+            <option value="lower">lower</option>
+            <option value="title">Title Case</option>
+          </select>
+        )
+      case 'affix':
+        return (
+          <>
+            <input
+              type="text"
+              value={formatter.prefix}
+              onChange={(e) => update(index, { ...formatter, prefix: e.target.value })}
+              placeholder="Prefix"
+              className={`w-16 ${inputClass}`}
+            />
+            <input
+              type="text"
+              value={formatter.suffix}
+              onChange={(e) => update(index, { ...formatter, suffix: e.target.value })}
+              placeholder="Suffix"
+              className={`w-16 ${inputClass}`}
+            />
+          </>
+        )
+      case 'valueMap':
+        return (
+          <div className="w-full space-y-1">
+            {formatter.entries.map((entry, i) => (
+              <div key={i} className="flex gap-1 items-center">
+                <input
+                  type="text"
+                  value={entry.from}
+                  onChange={(e) => update(index, {
+                    ...formatter,
+                    entries: formatter.entries.map((en, j) => j === i ? { ...en, from: e.target.value } : en)
+                  })}
+                  placeholder="Highest"
+                  className={`flex-1 min-w-0 ${inputClass}`}
+                />
+                <span className="text-gray-400">→</span>
+                <input
+                  type="text"
+                  value={entry.to}
+                  onChange={(e) => update(index, {
+                    ...formatter,
+                    entries: formatter.entries.map((en, j) => j === i ? { ...en, to: e.target.value } : en)
+                  })}
+                  placeholder="P1"
+                  className={`flex-1 min-w-0 ${inputClass}`}
+                />
+                <button
+                  onClick={() => update(index, { ...formatter, entries: formatter.entries.filter((_, j) => j !== i) })}
+                  className="text-red-500 hover:text-red-700"
+                  title="Remove mapping"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => update(index, { ...formatter, entries: [...formatter.entries, { from: '', to: '' }] })}
+              className="text-blue-600 hover:text-blue-700"
+            >
+              + Mapping
+            </button>
+          </div>
+        )
+      case 'join':
+        return (
+          <input
+            type="text"
+            value={formatter.separator}
+            onChange={(e) => update(index, { ...formatter, separator: e.target.value })}
+            placeholder="Separator"
+            className={`w-16 ${inputClass}`}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      {formatters.map((formatter, index) => (
+        <div key={index} className="p-1.5 bg-gray-50 rounded border">
+          <div className="flex items-center gap-1 mb-1">
+            <span className="text-gray-400">{index + 1}.</span>
+            <span className="font-medium text-gray-600 flex-1">{FORMATTER_LABELS[formatter.type]}</span>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === formatters.length - 1}
+              className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onChange(formatters.filter((_, i) => i !== index))}
+              className="px-1 text-red-500 hover:text-red-700"
+              title="Remove formatter"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1 items-center">
+            {renderSettings(formatter, index)}
+          </div>
+        </div>
+      ))}
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange([...formatters, createFormatter(e.target.value as FieldFormatterType)])}
+        className="w-full border rounded px-1 py-0.5 text-xs text-blue-600"
+      >
+        <option value="">+ Add formatter...</option>
+        {(Object.keys(FORMATTER_LABELS) as FieldFormatterType[]).map(type => (
+          <option key={type} value={type}>{FORMATTER_LABELS[type]}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
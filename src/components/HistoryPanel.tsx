@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { useHistoryStore } from '../stores/dataStore'
+
+// Text fields keep the browser's own undo
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+export function HistoryPanel() {
+  const entries = useHistoryStore(state => state.entries)
+  const currentIndex = useHistoryStore(state => state.currentIndex)
+  const undo = useHistoryStore(state => state.undo)
+  const redo = useHistoryStore(state => state.redo)
+  const jumpTo = useHistoryStore(state => state.jumpTo)
+  const [isOpen, setIsOpen] = useState(false)
+
+  const canUndo = currentIndex > 0
+  const canRedo = currentIndex < entries.length - 1
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), Ctrl+Y also redoes
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={undo}
+        disabled={!canUndo}
+        className="px-2 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300 disabled:opacity-50"
+        title={canUndo ? `Undo ${entries[currentIndex].label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        ↶
+      </button>
+      <button
+        onClick={redo}
+        disabled={!canRedo}
+        className="px-2 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300 disabled:opacity-50"
+        title={canRedo ? `Redo ${entries[currentIndex + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        ↷
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-3 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300"
+      >
+        History
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-50 w-72 max-h-96 overflow-y-auto bg-white border rounded-lg shadow-lg text-sm">
+          {/* Newest first; entries after the current one can be redone */}
+          {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+            <button
+              key={`${index}-${entry.timestamp}`}
+              onClick={() => jumpTo(index)}
+              className={`w-full flex justify-between gap-2 px-3 py-1.5 text-left hover:bg-gray-50 ${
+                index === currentIndex ? 'bg-blue-50 text-blue-700 font-medium' : index > currentIndex ? 'text-gray-400' : ''
+              }`}
+            >
+              <span className="truncate">{entry.label}</span>
+              <span className="text-xs text-gray-400 whitespace-nowrap">
+                {new Date(entry.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react'
+import { importFromJira } from '../services/jiraImporter'
+import { useDataStore } from '../stores/dataStore'
+import { JiraConnection, JiraQueryMode } from '../types'
+
+const SAVED_CONNECTION_KEY = 'tickets-jira-connection'
+
+const QUERY_PLACEHOLDERS: Record<JiraQueryMode, string> = {
+  jql: 'project = ABC AND sprint in openSprints() ORDER BY Rank',
+  sprint: 'Sprint ID, e.g. 42',
+  board: 'Board ID, e.g. 7'
+}
+
+// The token is never stored, only where to connect and as whom
+function loadSavedConnection(): JiraConnection {
+  try {
+    const stored = localStorage.getItem(SAVED_CONNECTION_KEY)
+    if (stored) {
+      return { ...JSON.parse(stored), token: '' }
+    }
+  } catch (e) {
+    console.error('Error loading Jira connection:', e)
+  }
+  return { baseUrl: '', authType: 'basic', username: '', token: '' }
+}
+
+function saveConnection(connection: JiraConnection) {
+  const { token: _token, ...rest } = connection
+  localStorage.setItem(SAVED_CONNECTION_KEY, JSON.stringify(rest))
+}
+
+export function JiraImport() {
+  const setData = useDataStore(state => state.setData)
+  const [connection, setConnection] = useState<JiraConnection>(loadSavedConnection)
+  const [queryMode, setQueryMode] = useState<JiraQueryMode>('jql')
+  const [queryValue, setQueryValue] = useState('')
+  const [status, setStatus] = useState<{ isRunning: boolean; progress?: string; error?: string }>({ isRunning: false })
+
+  const updateConnection = (updates: Partial<JiraConnection>) => {
+    setConnection(prev => ({ ...prev, ...updates }))
+  }
+
+  const canImport = connection.baseUrl.trim() && connection.token.trim() && queryValue.trim() &&
+    (connection.authType === 'bearer' || connection.username?.trim())
+
+  const handleImport = async () => {
+    setStatus({ isRunning: true, progress: 'Connecting...' })
+    try {
+      const result = await importFromJira({
+        connection,
+        query: { mode: queryMode, value: queryValue },
+        onProgress: (loaded, total) => setStatus({ isRunning: true, progress: `Loaded ${loaded} of ${total} issues...` })
+      })
+      if (result.rows.length === 0) {
+        setStatus({ isRunning: false, error: 'The query returned no issues' })
+        return
+      }
+      saveConnection(connection)
+      setStatus({ isRunning: false })
+      setData(result.rows, result.columns)
+    } catch (err) {
+      setStatus({ isRunning: false, error: err instanceof Error ? err.message : 'Jira import failed' })
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-6 bg-white space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Jira URL</label>
+        <input
+          type="url"
+          value={connection.baseUrl}
+          onChange={(e) => updateConnection({ baseUrl: e.target.value })}
+          placeholder="https://your-company.atlassian.net"
+          className="w-full px-3 py-2 border rounded text-sm"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Authentication</label>
+          <select
+            value={connection.authType}
+            onChange={(e) => updateConnection({ authType: e.target.value as JiraConnection['authType'] })}
+            className="w-full px-3 py-2 border rounded text-sm"
+          >
+            <option value="basic">Email + API token (Cloud)</option>
+            <option value="bearer">Personal access token (Server/DC)</option>
+          </select>
+        </div>
+        {connection.authType === 'basic' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              type="text"
+              value={connection.username || ''}
+              onChange={(e) => updateConnection({ username: e.target.value })}
+              className="w-full px-3 py-2 border rounded text-sm"
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {connection.authType === 'basic' ? 'API token' : 'Personal access token'}
+        </label>
+        <input
+          type="password"
+          value={connection.token}
+          onChange={(e) => updateConnection({ token: e.target.value })}
+          className="w-full px-3 py-2 border rounded text-sm"
+        />
+      </div>
+
+      <div>
+        <div className="flex gap-2 mb-1">
+          {(['jql', 'sprint', 'board'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setQueryMode(mode)}
+              className={`px-2 py-0.5 rounded text-xs ${queryMode === mode ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'}`}
+            >
+              {mode === 'jql' ? 'JQL' : mode === 'sprint' ? 'Sprint ID' : 'Board ID'}
+            </button>
+          ))}
+        </div>
+        {queryMode === 'jql' ? (
+          <textarea
+            value={queryValue}
+            onChange={(e) => setQueryValue(e.target.value)}
+            placeholder={QUERY_PLACEHOLDERS.jql}
+            rows={2}
+            className="w-full px-3 py-2 border rounded text-sm font-mono"
+          />
+        ) : (
+          <input
+            type="text"
+            inputMode="numeric"
+            value={queryValue}
+            onChange={(e) => setQueryValue(e.target.value)}
+            placeholder={QUERY_PLACEHOLDERS[queryMode]}
+            className="w-full px-3 py-2 border rounded text-sm"
+          />
+        )}
+      </div>
+
+      <button
+        onClick={handleImport}
+        disabled={!canImport || status.isRunning}
+        className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+      >
+        {status.isRunning ? status.progress : 'Import from Jira'}
+      </button>
+
+      {status.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+          {status.error}
+        </div>
+      )}
+    </div>
+  )
+}
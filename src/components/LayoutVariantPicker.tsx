@@ -0,0 +1,185 @@
+import { useMemo, useState } from 'react'
+import { useDataStore } from '../stores/dataStore'
+import { ConditionGroup, TicketRow } from '../types'
+import { formatCellValue, getCellValues } from '../utils/cellValues'
+import { findLayoutVariant } from '../utils/layoutVariants'
+import { ConditionEditor } from './ConditionEditor'
+
+interface LayoutVariantPickerProps {
+  rows: TicketRow[]        // Tickets the designer previews
+  previewIndex: number
+  onPreview: (index: number) => void
+}
+
+/**
+ * Picks the layout the designer edits and the ticket selector of each
+ * variant. Prev/next step through the tickets that print with that layout.
+ */
+export function LayoutVariantPicker({ rows, previewIndex, onPreview }: LayoutVariantPickerProps) {
+  const columns = useDataStore(state => state.columns)
+  const columnSchema = useDataStore(state => state.columnSchema)
+  const getEnrichedRow = useDataStore(state => state.getEnrichedRow)
+  const layoutVariants = useDataStore(state => state.layoutVariants)
+  const editingVariantId = useDataStore(state => state.editingVariantId)
+  const setEditingVariantId = useDataStore(state => state.setEditingVariantId)
+  const addLayoutVariant = useDataStore(state => state.addLayoutVariant)
+  const updateLayoutVariant = useDataStore(state => state.updateLayoutVariant)
+  const removeLayoutVariant = useDataStore(state => state.removeLayoutVariant)
+  const moveLayoutVariant = useDataStore(state => state.moveLayoutVariant)
+  const [showSelector, setShowSelector] = useState(false)
+
+  const editingVariant = layoutVariants.find(v => v.id === editingVariantId) ?? null
+
+  // Variant id each previewed ticket prints with (null: default layout)
+  const rowVariantIds = useMemo(
+    () => rows.map(row => findLayoutVariant(layoutVariants, getEnrichedRow(row), columnSchema)?.id ?? null),
+    [rows, layoutVariants, getEnrichedRow, columnSchema]
+  )
+  const matchingIndexes = useMemo(
+    () => rowVariantIds.flatMap((id, i) => id === (editingVariant?.id ?? null) ? [i] : []),
+    [rowVariantIds, editingVariant]
+  )
+  const countFor = (id: string | null) => rowVariantIds.filter(v => v === id).length
+
+  const previewVariantId = rowVariantIds[previewIndex] ?? null
+  const previewVariantName = layoutVariants.find(v => v.id === previewVariantId)?.name ?? 'Default layout'
+  const previousMatch = [...matchingIndexes].reverse().find(i => i < previewIndex)
+  const nextMatch = matchingIndexes.find(i => i > previewIndex)
+
+  const getUniqueValues = (fieldName: string): string[] => {
+    const values = new Set<string>()
+    for (const row of rows) {
+      for (const val of getCellValues(row[fieldName])) {
+        if (val.trim() !== '') values.add(val)
+      }
+    }
+    return Array.from(values).sort()
+  }
+
+  // Starts from the previewed ticket's issue type, e.g. "Issue Type equals Bug"
+  const handleAdd = () => {
+    const field = columns.find(col => /issue\s*type/i.test(col)) ?? columns.find(col => /type/i.test(col)) ?? columns[0] ?? ''
+    const value = rows[previewIndex] ? formatCellValue(getEnrichedRow(rows[previewIndex])[field]) : ''
+    const condition: ConditionGroup = { match: 'all', conditions: [{ field, operator: 'equals', value }] }
+    addLayoutVariant(value ? `${value} layout` : `Layout ${layoutVariants.length + 1}`, condition)
+    setShowSelector(true)
+  }
+
+  const handleSelect = (value: string) => {
+    const id = value || null
+    setEditingVariantId(id)
+    // Jump to a ticket that uses the chosen layout, if the current one doesn't
+    if (rowVariantIds[previewIndex] !== id) {
+      const first = rowVariantIds.indexOf(id)
+      if (first >= 0) onPreview(first)
+    }
+  }
+
+  return (
+    <div className="mb-2 px-2 flex-shrink-0 text-sm">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-gray-600">Layout:</span>
+        <select
+          value={editingVariant?.id ?? ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="px-2 py-1 border rounded"
+        >
+          <option value="">Default layout ({countFor(null)})</option>
+          {layoutVariants.map(variant => (
+            <option key={variant.id} value={variant.id}>{variant.name} ({countFor(variant.id)})</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+          title="Copy the current layout into a new variant for matching tickets"
+        >
+          + Variant
+        </button>
+
+        {editingVariant && (
+          <>
+            <input
+              type="text"
+              value={editingVariant.name}
+              onChange={(e) => updateLayoutVariant(editingVariant.id, { name: e.target.value })}
+              className="px-2 py-1 border rounded w-40"
+              placeholder="Layout name"
+            />
+            <button
+              onClick={() => setShowSelector(!showSelector)}
+              className={`px-2 py-1 rounded ${showSelector ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              Used for...
+            </button>
+            <button
+              onClick={() => moveLayoutVariant(editingVariant.id, -1)}
+              disabled={layoutVariants[0] === editingVariant}
+              className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              title="Check this variant earlier"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => moveLayoutVariant(editingVariant.id, 1)}
+              disabled={layoutVariants[layoutVariants.length - 1] === editingVariant}
+              className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              title="Check this variant later"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => removeLayoutVariant(editingVariant.id)}
+              className="px-1 text-red-500 hover:text-red-700"
+              title="Delete this layout variant"
+            >
+              ✕
+            </button>
+          </>
+        )}
+
+        {layoutVariants.length > 0 && (
+          <div className="flex items-center gap-1 ml-auto text-gray-600">
+            <button
+              onClick={() => previousMatch !== undefined && onPreview(previousMatch)}
+              disabled={previousMatch === undefined}
+              className="px-2 py-0.5 bg-gray-100 rounded disabled:opacity-50 hover:bg-gray-200"
+              title="Previous ticket using this layout"
+            >
+              ‹
+            </button>
+            <span>{matchingIndexes.length} matching</span>
+            <button
+              onClick={() => nextMatch !== undefined && onPreview(nextMatch)}
+              disabled={nextMatch === undefined}
+              className="px-2 py-0.5 bg-gray-100 rounded disabled:opacity-50 hover:bg-gray-200"
+              title="Next ticket using this layout"
+            >
+              ›
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editingVariant && showSelector && (
+        <div className="mt-2 p-2 bg-gray-50 rounded text-xs border">
+          <p className="text-gray-500 mb-1">
+            Tickets matching these conditions print with "{editingVariant.name}". Variants are checked top to bottom; other tickets use the default layout.
+          </p>
+          <ConditionEditor
+            group={editingVariant.condition}
+            onChange={(condition) => updateLayoutVariant(editingVariant.id, { condition })}
+            columns={columns}
+            getUniqueValues={getUniqueValues}
+          />
+        </div>
+      )}
+
+      {layoutVariants.length > 0 && previewVariantId !== (editingVariant?.id ?? null) && (
+        <p className="mt-1 text-xs text-amber-700">
+          This ticket prints with "{previewVariantName}"; the card below shows the layout you are editing.
+        </p>
+      )}
+    </div>
+  )
+}
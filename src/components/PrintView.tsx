@@ -1,32 +1,67 @@
-import { useState, useMemo, useEffect } from 'react'
+import { Fragment, useState, useMemo, useEffect, useRef, useCallback } from 'react'
 import { useDataStore } from '../stores/dataStore'
-import { ColorRule, TicketRow, CardBackgroundRule, FieldLayout } from '../types'
-import { renderMarkdown } from '../utils/markdownRenderer'
+import { TicketRow, SortedCardResult, ImpositionConfig, PaperSizeId, CardSide, LayoutDesign } from '../types'
 import { applySorting } from '../utils/cardSorting'
-
-const GRID_COLS = 12
-const BASE_PADDING_PERCENT = 1.5 // padding as percentage
-
-// Use mm for print consistency
-const SIZES = {
-  'half-a4': { width: '210mm', height: '148.5mm', label: 'Half A4' },
-  'a4': { width: '210mm', height: '297mm', label: 'Full A4' }
-}
-
-type PrintSize = keyof typeof SIZES
+import { filterRows } from '../utils/filterQuery'
+import { exportToPdf } from '../services/pdfExport'
+import { CardImage, exportCardImages, IMAGE_DPI_OPTIONS, ImageFormat } from '../services/imageExport'
+import { CardSizePicker } from './CardSizePicker'
+import { PAPER_SIZES, IMPOSITION_PRESETS, computeSheetLayout, computeCutMarks, mirrorSheetLayout, getDuplexMirrorAxis, paginate, SheetLayout } from '../utils/imposition'
+import { formatCellValue } from '../utils/cellValues'
+import { evaluateCardBackground } from '../utils/ruleEvaluator'
+import { computeScaleDomains } from '../utils/colorScale'
+import { findKeyColumn, getCardKey, getTicketKey } from '../utils/ticketKeys'
+import { resolveLayoutDesign } from '../utils/layoutVariants'
+import { CardContext, getDisplayName, resolveCard } from '../utils/cardLayout'
+import { CardRenderer } from './CardRenderer'
 
 export function PrintView() {
-  const [printSize, setPrintSize] = useState<PrintSize>('half-a4')
   const [showScrollTop, setShowScrollTop] = useState(false)
-  const rawRows = useDataStore(state => state.rows)
+  const [pageRange, setPageRange] = useState('')
+  const [pdfExportState, setPdfExportState] = useState<{
+    isRunning: boolean
+    error?: string
+    savedTo?: string
+  }>({ isRunning: false })
+  const [imageFormat, setImageFormat] = useState<ImageFormat>('png')
+  const [imageDpi, setImageDpi] = useState(300)
+  const [imageZip, setImageZip] = useState(false)
+  const [imageSelectedOnly, setImageSelectedOnly] = useState(false)
+  const [imageExportState, setImageExportState] = useState<{
+    isRunning: boolean
+    progress?: string
+    error?: string
+    savedTo?: string
+  }>({ isRunning: false })
+  const [selectionFilter, setSelectionFilter] = useState('')
+  const [selectionFilterError, setSelectionFilterError] = useState<string>()
+  const [printOnly, setPrintOnly] = useState<SortedCardResult[] | null>(null)
+  // Fields whose text is still cut off, keyed "position|side|field"
+  const [clippedFields, setClippedFields] = useState<Record<string, true>>({})
+  const [showClipped, setShowClipped] = useState(false)
+  const lastToggledRef = useRef<number | null>(null)
+  const pagesRef = useRef<HTMLDivElement>(null)
+  const allRows = useDataStore(state => state.rows)
+  const columns = useDataStore(state => state.columns)
   const fieldMappings = useDataStore(state => state.fieldMappings)
   const fieldLayouts = useDataStore(state => state.fieldLayouts)
+  const backFieldLayouts = useDataStore(state => state.backFieldLayouts)
   const fieldStyles = useDataStore(state => state.fieldStyles)
   const getEnrichedRow = useDataStore(state => state.getEnrichedRow)
   const enrichmentGroup = useDataStore(state => state.enrichmentGroup)
   const cardBackgroundRules = useDataStore(state => state.cardBackgroundRules)
+  const layoutVariants = useDataStore(state => state.layoutVariants)
   const sortConfig = useDataStore(state => state.sortConfig)
+  const columnSchema = useDataStore(state => state.columnSchema)
   const aiSortedResults = useDataStore(state => state.aiSortedResults)
+  const printSettings = useDataStore(state => state.printSettings)
+  const setPrintSettings = useDataStore(state => state.setPrintSettings)
+  const importChanges = useDataStore(state => state.importChanges)
+  const selectedCardKeys = useDataStore(state => state.selectedCardKeys)
+  const setSelectedCardKeys = useDataStore(state => state.setSelectedCardKeys)
+
+  const cardSize = useDataStore(state => state.cardSize)
+  const imposition = printSettings.imposition
 
   // Show scroll to top button when scrolled down
   useEffect(() => {
@@ -42,6 +77,14 @@ export function PrintView() {
     window.scrollTo({ top: 0, behavior: 'smooth' })
   }
 
+  // Filter first so sorting (and AI sorting) only sees the tickets to print
+  const rawRows = useMemo(
+    () => filterRows(allRows, sortConfig.filter, columns, columnSchema).rows,
+    [allRows, sortConfig.filter, columns, columnSchema]
+  )
+
+  const keyColumn = useMemo(() => findKeyColumn(columns, columnSchema), [columns, columnSchema])
+
   // Apply sorting - use AI results if available, otherwise apply regular sorting
   const sortedResults = useMemo(() => {
     console.log('📋 PrintView: Sorting tickets...')
@@ -51,11 +94,16 @@ export function PrintView() {
 
     if (aiSortedResults && aiSortedResults.length > 0) {
       console.log('✅ PrintView: Using AI-sorted results', aiSortedResults.length)
-      return aiSortedResults
+      // The AI order may predate the filter; keep only the tickets it lets through
+      const visibleKeys = new Set(rawRows.map(row => getTicketKey(row, keyColumn)))
+      const visibleRows = new Set(rawRows)
+      return aiSortedResults.filter(result => keyColumn
+        ? visibleKeys.has(getTicketKey(result.row, keyColumn))
+        : visibleRows.has(result.row))
     }
 
     console.log('📊 PrintView: Applying regular sorting...')
-    const sorted = applySorting(rawRows, sortConfig)
+    const sorted = applySorting(rawRows, sortConfig, columnSchema)
     console.log('📊 PrintView: Regular sorting complete. Results:', sorted.length)
 
     // Show first 5 results for debugging
@@ -70,127 +118,376 @@ export function PrintView() {
     }
 
     return sorted
-  }, [rawRows, sortConfig, aiSortedResults])
-
-  const getFieldStyle = (fieldId: string) => {
-    return fieldStyles.find(s => s.fieldId === fieldId) || {
-      fieldId,
-      fontSize: 12,
-      fontWeight: 'normal' as const,
-      textAlign: 'left' as const,
-      showLabel: true,
-      showBorder: true,
-      colorRules: []
-    }
-  }
+  }, [rawRows, sortConfig, columnSchema, aiSortedResults, keyColumn])
 
-  const getDisplayName = (fieldId: string) => {
-    if (fieldId.startsWith('_enriched_')) {
-      return fieldId.replace('_enriched_', '')
-    }
-    const mapping = fieldMappings.find(m => m.columnName === fieldId)
-    return mapping?.displayName || fieldId
+  // Selection is keyed by ticket key so it survives re-sorting and re-imports
+  const cardKeys = useMemo(
+    () => sortedResults.map(result => getCardKey(result, keyColumn)),
+    [sortedResults, keyColumn]
+  )
+  const selectedKeySet = useMemo(() => new Set(selectedCardKeys), [selectedCardKeys])
+  const selectedResults = useMemo(
+    () => sortedResults.filter((_, i) => selectedKeySet.has(cardKeys[i])),
+    [sortedResults, cardKeys, selectedKeySet]
+  )
+
+  // Cards keep their deck number when only the selection is printed
+  const cardPositions = useMemo(
+    () => new Map(sortedResults.map((result, i) => [result, i])),
+    [sortedResults]
+  )
+  const printResults = printOnly ?? sortedResults
+
+  const newOrChangedResults = useMemo(
+    () => importChanges
+      ? sortedResults.filter((_, i) => ['new', 'changed'].includes(importChanges.tickets[cardKeys[i]]?.status))
+      : [],
+    [importChanges, sortedResults, cardKeys]
+  )
+
+  const reportClipped = useCallback((key: string, clipped: boolean) => {
+    setClippedFields(prev => {
+      if (!!prev[key] === clipped) return prev
+      const next = { ...prev }
+      if (clipped) next[key] = true
+      else delete next[key]
+      return next
+    })
+  }, [])
+
+  const defaultDesign: LayoutDesign = useMemo(
+    () => ({ fieldLayouts, backFieldLayouts, fieldStyles, cardBackgroundRules }),
+    [fieldLayouts, backFieldLayouts, fieldStyles, cardBackgroundRules]
+  )
+  const designs = useMemo(() => [defaultDesign, ...layoutVariants], [defaultDesign, layoutVariants])
+
+  // Each ticket is printed with its layout variant, or the default design
+  const getDesign = (enrichedRow: TicketRow) => resolveLayoutDesign(defaultDesign, layoutVariants, enrichedRow, columnSchema)
+
+  // Scales span every imported ticket, so a card's colour doesn't change with the filter
+  const scaleDomains = useMemo(
+    () => computeScaleDomains(designs.flatMap(design => design.fieldStyles), allRows, columnSchema),
+    [designs, allRows, columnSchema]
+  )
+
+  const cardContext: CardContext = useMemo(
+    () => ({ fieldMappings, enrichmentGroup, columnSchema, scaleDomains }),
+    [fieldMappings, enrichmentGroup, columnSchema, scaleDomains]
+  )
+
+  const toggleCardSelection = (position: number, shiftKey: boolean) => {
+    const select = !selectedKeySet.has(cardKeys[position])
+    const anchor = lastToggledRef.current
+    const range = shiftKey && anchor !== null
+      ? cardKeys.slice(Math.min(anchor, position), Math.max(anchor, position) + 1)
+      : [cardKeys[position]]
+
+    const next = new Set(selectedKeySet)
+    range.forEach(key => select ? next.add(key) : next.delete(key))
+    setSelectedCardKeys(Array.from(next))
+    lastToggledRef.current = position
   }
 
-  const evaluateColorRules = (rules: ColorRule[], row: TicketRow | null) => {
-    if (!row || !rules.length) return { backgroundColor: '', textColor: '' }
-
-    for (const rule of rules) {
-      const fieldValue = String(row[rule.field] || '')
-
-      let matches = false
-      switch (rule.operator) {
-        case 'equals':
-          matches = fieldValue.toLowerCase() === rule.value.toLowerCase()
-          break
-        case 'contains':
-          matches = fieldValue.toLowerCase().includes(rule.value.toLowerCase())
-          break
-        case 'notEmpty':
-          matches = fieldValue.trim() !== ''
-          break
-        case 'empty':
-          matches = fieldValue.trim() === ''
-          break
-      }
-
-      if (matches) {
-        return { backgroundColor: rule.backgroundColor, textColor: rule.textColor }
-      }
+  const selectByFilter = () => {
+    const result = filterRows(sortedResults.map(r => r.row), selectionFilter, columns, columnSchema)
+    if (result.error) {
+      setSelectionFilterError(result.error)
+      return
     }
-    return { backgroundColor: '', textColor: '' }
+    const matching = new Set(result.rows)
+    const next = new Set(selectedKeySet)
+    sortedResults.forEach((r, i) => {
+      if (matching.has(r.row)) next.add(cardKeys[i])
+    })
+    setSelectedCardKeys(Array.from(next))
+    setSelectionFilterError(undefined)
   }
 
-  const evaluateCardBackground = (row: TicketRow | null): string => {
-    if (!row || !cardBackgroundRules.length) return 'white'
-
-    for (const rule of cardBackgroundRules) {
-      const fieldValue = String(row[rule.field] || '')
-
-      let matches = false
-      switch (rule.operator) {
-        case 'equals':
-          matches = fieldValue.toLowerCase() === rule.value.toLowerCase()
-          break
-        case 'contains':
-          matches = fieldValue.toLowerCase().includes(rule.value.toLowerCase())
-          break
-        case 'notEmpty':
-          matches = fieldValue.trim() !== ''
-          break
-        case 'empty':
-          matches = fieldValue.trim() === ''
-          break
-      }
-
-      if (matches) {
-        return rule.backgroundColor
-      }
+  // Render only part of the deck, print, then restore the full deck
+  useEffect(() => {
+    if (!printOnly) return
+    const restore = () => setPrintOnly(null)
+    window.addEventListener('afterprint', restore)
+    window.print()
+    return () => window.removeEventListener('afterprint', restore)
+  }, [printOnly])
+
+  // One entry per card, in deck order
+  const clippedCards = useMemo(() => {
+    const byPosition = new Map<number, string[]>()
+    for (const key of Object.keys(clippedFields)) {
+      const [position, side, fieldId] = key.split('|')
+      const fields = byPosition.get(Number(position)) ?? []
+      fields.push(`${getDisplayName(fieldId, fieldMappings)}${side === 'back' ? ' (back)' : ''}`)
+      byPosition.set(Number(position), fields)
     }
-    return 'white'
+    return [...byPosition.entries()].sort(([a], [b]) => a - b)
+  }, [clippedFields, fieldMappings])
+
+  const scrollToCard = (position: number) => {
+    document.querySelector(`[data-card-position="${position}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
   }
 
   const handlePrint = () => {
     window.print()
   }
 
-  const { width: CARD_WIDTH_MM, height: CARD_HEIGHT_MM } = SIZES[printSize]
-
-  const getAllLayouts = (enrichedRow: Record<string, unknown>) => {
-    const allLayouts = [...fieldLayouts]
-
-    if (enrichmentGroup) {
-      const groupValue = enrichedRow[enrichmentGroup.groupField]
-      const enrichedFields = groupValue
-        ? enrichmentGroup.enrichments[String(groupValue)]
-        : null
-
-      if (enrichedFields) {
-        let maxY = Math.max(0, ...fieldLayouts.map(l => l.y + l.h))
-        Object.keys(enrichedFields).forEach((fieldName, i) => {
-          const exists = allLayouts.find(l => l.i === `_enriched_${fieldName}`)
-          if (!exists) {
-            allLayouts.push({
-              i: `_enriched_${fieldName}`,
-              x: (i % 2) * 6,
-              y: maxY + Math.floor(i / 2) * 2,
-              w: 6,
-              h: 2
-            })
-          }
-        })
-      }
+  const handleExportPdf = async () => {
+    if (!pagesRef.current) return
+
+    setPdfExportState({ isRunning: true })
+    try {
+      const savedTo = await exportToPdf({
+        pages: Array.from(pagesRef.current.children) as HTMLElement[],
+        pageWidthMm: imposition.enabled ? sheetLayout.pageWidthMm : CARD_WIDTH_MM,
+        pageHeightMm: imposition.enabled ? sheetLayout.pageHeightMm : CARD_HEIGHT_MM,
+        pageRange,
+        fileName: 'ticket-cards.pdf'
+      })
+      setPdfExportState({ isRunning: false, savedTo: savedTo || undefined })
+    } catch (error) {
+      console.error('PDF export failed:', error)
+      setPdfExportState({
+        isRunning: false,
+        error: error instanceof Error ? error.message : 'PDF export failed'
+      })
+    }
+  }
+
+  // One image per card side, named after the ticket key
+  const handleExportImages = async () => {
+    const results = imageSelectedOnly && selectedResults.length > 0 ? selectedResults : sortedResults
+    const sides: CardSide[] = printSettings.duplex ? ['front', 'back'] : ['front']
+    const cards: CardImage[] = results.flatMap(result => {
+      const enrichedRow = getEnrichedRow(result.row)
+      const design = getDesign(enrichedRow)
+      const name = getTicketKey(result.row, keyColumn) ?? `card-${(cardPositions.get(result) ?? 0) + 1}`
+      return sides.map(side => ({
+        card: resolveCard(design, enrichedRow, side, cardContext),
+        name: side === 'back' ? `${name}-back` : name
+      }))
+    })
+
+    setImageExportState({ isRunning: true })
+    try {
+      const savedTo = await exportCardImages({
+        cards,
+        widthMm: CARD_WIDTH_MM,
+        heightMm: CARD_HEIGHT_MM,
+        format: imageFormat,
+        dpi: imageDpi,
+        zip: imageZip,
+        zipName: `ticket-cards-${imageFormat}.zip`,
+        onProgress: (done, total) => setImageExportState({ isRunning: true, progress: `${done} / ${total}` })
+      })
+      setImageExportState({ isRunning: false, savedTo: savedTo || undefined })
+    } catch (error) {
+      console.error('Image export failed:', error)
+      setImageExportState({
+        isRunning: false,
+        error: error instanceof Error ? error.message : 'Image export failed'
+      })
     }
+  }
+
+  const updateImposition = (updates: Partial<ImpositionConfig>) => {
+    setPrintSettings({ imposition: { ...imposition, ...updates } })
+  }
+
+  const { widthMm: CARD_WIDTH_MM, heightMm: CARD_HEIGHT_MM } = cardSize
+
+  const sheetLayout = useMemo(
+    () => computeSheetLayout(imposition, CARD_WIDTH_MM, CARD_HEIGHT_MM),
+    [imposition, CARD_WIDTH_MM, CARD_HEIGHT_MM]
+  )
+
+  const cutMarks = useMemo(
+    () => imposition.enabled && printSettings.cutMarks
+      ? computeCutMarks(sheetLayout, CARD_WIDTH_MM, CARD_HEIGHT_MM, printSettings.bleedMm)
+      : [],
+    [imposition.enabled, printSettings.cutMarks, printSettings.bleedMm, sheetLayout, CARD_WIDTH_MM, CARD_HEIGHT_MM]
+  )
+
+  // Backs are mirrored so they land behind their fronts after flipping the sheet
+  const backSheetLayout = useMemo(
+    () => mirrorSheetLayout(
+      sheetLayout,
+      CARD_WIDTH_MM,
+      CARD_HEIGHT_MM,
+      getDuplexMirrorAxis(imposition.orientation, printSettings.duplexFlip)
+    ),
+    [sheetLayout, CARD_WIDTH_MM, CARD_HEIGHT_MM, imposition.orientation, printSettings.duplexFlip]
+  )
+
+  const sheets = useMemo(
+    () => imposition.enabled ? paginate(printResults, sheetLayout.cells.length) : [],
+    [imposition.enabled, printResults, sheetLayout.cells.length]
+  )
+
+  const pageCount = (imposition.enabled ? sheets.length : printResults.length) * (printSettings.duplex ? 2 : 1)
+
+  const renderCard = (result: SortedCardResult, displayIndex: number, side: CardSide = 'front') => {
+    const { row, groupId, groupSize } = result
+    const enrichedRow = getEnrichedRow(row)
+    const card = resolveCard(getDesign(enrichedRow), enrichedRow, side, cardContext)
+    const position = cardPositions.get(result) ?? displayIndex
+    const isSelected = selectedKeySet.has(cardKeys[position])
+    const change = importChanges?.tickets[cardKeys[position]]
+
+    return (
+      <CardRenderer
+        key={`${side}-${displayIndex}`}
+        data-card-position={side === 'front' ? position : undefined}
+        className="print-card mx-auto shadow border border-gray-200"
+        card={card}
+        widthMm={CARD_WIDTH_MM}
+        heightMm={CARD_HEIGHT_MM}
+        onFieldOverflow={(layoutId, clipped) => reportClipped(`${position}|${side}|${layoutId}`, clipped)}
+      >
+        <div className="no-print absolute top-1 right-2 text-xs text-gray-400" style={{ zIndex: 10 }}>
+          {position + 1} / {sortedResults.length}{side === 'back' && ' (back)'}
+        </div>
+
+        {side === 'front' && (
+          <label className="no-print absolute top-1 left-2 flex items-center" style={{ zIndex: 11 }} title="Select for reprint (Shift-click for a range)">
+            <input
+              type="checkbox"
+              checked={isSelected}
+              readOnly
+              onClick={(e) => toggleCardSelection(position, e.shiftKey)}
+            />
+          </label>
+        )}
+        {side === 'front' && (change?.status === 'new' || change?.status === 'changed') && (
+          <div
+            className={`no-print absolute top-1 left-7 px-1.5 rounded text-xs font-medium ${
+              change.status === 'new' ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'
+            }`}
+            style={{ zIndex: 11 }}
+            title={change.fieldChanges.map(c => c.field).join(', ') || undefined}
+          >
+            {change.status === 'new' ? 'New' : `Changed (${change.fieldChanges.length})`}
+          </div>
+        )}
+        {isSelected && (
+          <div className="no-print absolute inset-0 border-2 border-blue-500 pointer-events-none" style={{ zIndex: 10 }} />
+        )}
+
+        {printSettings.showSafeZone && printSettings.safeZoneMm > 0 && (
+          <div
+            className="no-print absolute border border-dashed border-red-400 pointer-events-none"
+            style={{ inset: `${printSettings.safeZoneMm}mm`, zIndex: 10 }}
+            title="Safe zone"
+          />
+        )}
 
-    return allLayouts
+        {/* Card numbering - bottom right corner */}
+        {side === 'front' && (
+          <div
+            className="print-show absolute bottom-1 right-2 text-xs text-gray-400"
+            style={{
+              zIndex: 5,
+              fontSize: '8px',
+              fontWeight: 300
+            }}
+          >
+            #{position + 1}
+            {groupId && groupSize && groupSize > 1 && (
+              <span className="ml-1 text-gray-300">
+                (group: {groupSize})
+              </span>
+            )}
+          </div>
+        )}
+      </CardRenderer>
+    )
+  }
+
+  const renderSheet = (sheet: SortedCardResult[], sheetIndex: number, side: CardSide) => {
+    const layout: SheetLayout = side === 'front' ? sheetLayout : backSheetLayout
+
+    return (
+      <div
+        key={`${side}-${sheetIndex}`}
+        className="print-sheet mx-auto shadow bg-white"
+        style={{
+          width: `${sheetLayout.pageWidthMm}mm`,
+          height: `${sheetLayout.pageHeightMm}mm`,
+          position: 'relative',
+          overflow: 'hidden'
+        }}
+      >
+        {/* Bleed - card background painted past the trim line, behind every card */}
+        {printSettings.bleedMm > 0 && sheet.map((result, cellIndex) => {
+          const cell = layout.cells[cellIndex]
+          const enrichedRow = getEnrichedRow(result.row) as TicketRow
+          return (
+            <div
+              key={`bleed-${cellIndex}`}
+              style={{
+                position: 'absolute',
+                left: `${cell.xMm - printSettings.bleedMm}mm`,
+                top: `${cell.yMm - printSettings.bleedMm}mm`,
+                width: `${CARD_WIDTH_MM * layout.scale + 2 * printSettings.bleedMm}mm`,
+                height: `${CARD_HEIGHT_MM * layout.scale + 2 * printSettings.bleedMm}mm`,
+                backgroundColor: evaluateCardBackground(getDesign(enrichedRow).cardBackgroundRules, enrichedRow, columnSchema)
+              }}
+            />
+          )
+        })}
+
+        {side === 'front' && cutMarks.length > 0 && (
+          <svg
+            className="absolute inset-0 pointer-events-none"
+            width={`${sheetLayout.pageWidthMm}mm`}
+            height={`${sheetLayout.pageHeightMm}mm`}
+            viewBox={`0 0 ${sheetLayout.pageWidthMm} ${sheetLayout.pageHeightMm}`}
+          >
+            {cutMarks.map((mark, i) => (
+              <line key={i} x1={mark.x1} y1={mark.y1} x2={mark.x2} y2={mark.y2} stroke="black" strokeWidth={0.2} />
+            ))}
+          </svg>
+        )}
+
+        {sheet.map((result, cellIndex) => {
+          const cell = layout.cells[cellIndex]
+          const displayIndex = sheetIndex * layout.cells.length + cellIndex
+          return (
+            <div
+              key={displayIndex}
+              style={{
+                position: 'absolute',
+                left: `${cell.xMm}mm`,
+                top: `${cell.yMm}mm`,
+                width: `${CARD_WIDTH_MM * layout.scale}mm`,
+                height: `${CARD_HEIGHT_MM * layout.scale}mm`
+              }}
+            >
+              <div style={{ transform: `scale(${layout.scale})`, transformOrigin: 'top left' }}>
+                {renderCard(result, displayIndex, side)}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    )
   }
 
   if (sortedResults.length === 0) {
-    return null
+    return allRows.length > 0 ? (
+      <div className="no-print text-center text-gray-500 py-12">No tickets match the current filter</div>
+    ) : null
   }
 
   return (
-    <div className={`print-container size-${printSize}`}>
+    <div className={`print-container ${imposition.enabled ? 'imposed' : ''}`}>
+      {/* Page size follows the imposition sheet, or the card itself when printing one per page */}
+      <style>
+        {imposition.enabled
+          ? `@page { size: ${sheetLayout.pageWidthMm}mm ${sheetLayout.pageHeightMm}mm; margin: 0; }`
+          : `@page { size: ${CARD_WIDTH_MM}mm ${CARD_HEIGHT_MM}mm; margin: 0; }`}
+      </style>
+
       {/* Scroll to top button */}
       {showScrollTop && (
         <button
@@ -203,16 +500,263 @@ export function PrintView() {
       )}
 
       {/* Print controls */}
-      <div className="no-print fixed bottom-6 right-6 flex flex-col gap-2 z-50 bg-white p-3 rounded-lg shadow-lg border">
-        <select
-          value={printSize}
-          onChange={(e) => setPrintSize(e.target.value as PrintSize)}
-          className="px-3 py-2 bg-white border rounded text-sm"
-        >
-          {Object.entries(SIZES).map(([key, { label }]) => (
-            <option key={key} value={key}>{label}</option>
-          ))}
-        </select>
+      <div className="no-print fixed bottom-6 right-6 flex flex-col gap-2 z-50 bg-white p-3 rounded-lg shadow-lg border w-64 max-h-[80vh] overflow-y-auto">
+        <CardSizePicker />
+
+        {/* Imposition */}
+        <div className="border-t pt-2 mt-2 space-y-2">
+          <label className="flex items-center text-xs font-medium">
+            <input
+              type="checkbox"
+              checked={imposition.enabled}
+              onChange={(e) => updateImposition({ enabled: e.target.checked })}
+              className="mr-2"
+            />
+            Multiple cards per sheet
+          </label>
+
+          {imposition.enabled && (
+            <>
+              <div className="flex gap-1 flex-wrap">
+                {IMPOSITION_PRESETS.map(preset => (
+                  <button
+                    key={preset.label}
+                    onClick={() => updateImposition({
+                      rows: preset.rows,
+                      cols: preset.cols,
+                      orientation: preset.orientation,
+                      gutterYMm: undefined,
+                      marginYMm: undefined
+                    })}
+                    className={`px-2 py-1 text-xs rounded border ${
+                      imposition.rows === preset.rows && imposition.cols === preset.cols && imposition.orientation === preset.orientation
+                        ? 'bg-blue-100 border-blue-300'
+                        : 'border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {preset.rows * preset.cols}-up
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex gap-1">
+                <select
+                  value={imposition.paper}
+                  onChange={(e) => updateImposition({ paper: e.target.value as PaperSizeId })}
+                  className="flex-1 border rounded px-1 py-0.5 text-xs"
+                >
+                  {Object.entries(PAPER_SIZES).map(([key, { label }]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={imposition.orientation}
+                  onChange={(e) => updateImposition({ orientation: e.target.value as ImpositionConfig['orientation'] })}
+                  className="flex-1 border rounded px-1 py-0.5 text-xs"
+                >
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-1 text-xs">
+                <label className="flex items-center gap-1">
+                  <span className="text-gray-500 w-14">Rows</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={imposition.rows}
+                    onChange={(e) => updateImposition({ rows: Math.max(1, Number(e.target.value) || 1) })}
+                    className="w-full border rounded px-1 py-0.5"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  <span className="text-gray-500 w-14">Columns</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={imposition.cols}
+                    onChange={(e) => updateImposition({ cols: Math.max(1, Number(e.target.value) || 1) })}
+                    className="w-full border rounded px-1 py-0.5"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  <span className="text-gray-500 w-14">Gutter mm</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={imposition.gutterMm}
+                    onChange={(e) => updateImposition({ gutterMm: Math.max(0, Number(e.target.value) || 0), gutterYMm: undefined })}
+                    className="w-full border rounded px-1 py-0.5"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  <span className="text-gray-500 w-14">Margin mm</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={imposition.marginMm}
+                    onChange={(e) => updateImposition({ marginMm: Math.max(0, Number(e.target.value) || 0), marginYMm: undefined })}
+                    className="w-full border rounded px-1 py-0.5"
+                  />
+                </label>
+              </div>
+
+              <div className="text-xs text-gray-500">
+                {cardSize.sheet && `${cardSize.label} layout · `}
+                {sheets.length} sheet{sheets.length !== 1 ? 's' : ''}
+                {sheetLayout.scale < 1 && ` · cards scaled to ${Math.round(sheetLayout.scale * 100)}%`}
+              </div>
+
+              <div className="grid grid-cols-2 gap-1 text-xs">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={printSettings.cutMarks}
+                    onChange={(e) => setPrintSettings({ cutMarks: e.target.checked })}
+                  />
+                  Cut marks
+                </label>
+                <label className="flex items-center gap-1">
+                  <span className="text-gray-500 w-14">Bleed mm</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={printSettings.bleedMm}
+                    onChange={(e) => setPrintSettings({ bleedMm: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full border rounded px-1 py-0.5"
+                  />
+                </label>
+              </div>
+              {printSettings.cutMarks && cutMarks.length === 0 && (
+                <p className="text-xs text-orange-600">
+                  Increase the margin to make room for cut marks outside the bleed.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Safe zone */}
+        <div className="border-t pt-2 mt-2 flex items-center gap-2 text-xs">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={printSettings.showSafeZone}
+              onChange={(e) => setPrintSettings({ showSafeZone: e.target.checked })}
+            />
+            Safe zone
+          </label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={printSettings.safeZoneMm}
+            onChange={(e) => setPrintSettings({ safeZoneMm: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-16 border rounded px-1 py-0.5"
+          />
+          <span className="text-gray-500">mm</span>
+        </div>
+
+        {/* Duplex */}
+        <div className="border-t pt-2 mt-2 flex items-center gap-2 text-xs">
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={printSettings.duplex}
+              onChange={(e) => setPrintSettings({ duplex: e.target.checked })}
+            />
+            Print backs
+          </label>
+          {printSettings.duplex && imposition.enabled && (
+            <select
+              value={printSettings.duplexFlip}
+              onChange={(e) => setPrintSettings({ duplexFlip: e.target.value as typeof printSettings.duplexFlip })}
+              className="flex-1 border rounded px-1 py-0.5"
+            >
+              <option value="long-edge">Flip on long edge</option>
+              <option value="short-edge">Flip on short edge</option>
+            </select>
+          )}
+        </div>
+        {printSettings.duplex && designs.every(design => design.backFieldLayouts.length === 0) && (
+          <p className="text-xs text-orange-600">
+            The back side is empty. Design it in the "Design Cards" tab.
+          </p>
+        )}
+
+        {/* Clipped text */}
+        {clippedCards.length > 0 && (
+          <div className="border-t pt-2 mt-2 text-xs">
+            <button
+              onClick={() => setShowClipped(!showClipped)}
+              className="w-full flex justify-between text-orange-600 font-medium"
+            >
+              <span>⚠ {clippedCards.length} card{clippedCards.length !== 1 ? 's' : ''} with cut-off text</span>
+              <span>{showClipped ? '▼' : '▶'}</span>
+            </button>
+            {showClipped && (
+              <ul className="mt-1 space-y-0.5 max-h-40 overflow-y-auto">
+                {clippedCards.map(([position, fields]) => (
+                  <li key={position}>
+                    <button
+                      onClick={() => scrollToCard(position)}
+                      className="text-left hover:underline"
+                      title="Scroll to card"
+                    >
+                      <span className="font-medium">#{position + 1}</span>
+                      {keyColumn && ` ${cardKeys[position]}`}: {fields.join(', ')}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="mt-1 text-gray-500">Turn on auto-fit for these fields in Style, or make them bigger.</p>
+          </div>
+        )}
+
+        {/* Selection */}
+        <div className="border-t pt-2 mt-2 space-y-1 text-xs">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{selectedResults.length} selected</span>
+            <div className="flex gap-2">
+              <button onClick={() => setSelectedCardKeys(cardKeys)} className="text-blue-600 hover:underline">
+                All
+              </button>
+              <button onClick={() => setSelectedCardKeys([])} className="text-blue-600 hover:underline">
+                None
+              </button>
+            </div>
+          </div>
+          <div className="flex gap-1">
+            <input
+              type="text"
+              value={selectionFilter}
+              onChange={(e) => {
+                setSelectionFilter(e.target.value)
+                setSelectionFilterError(undefined)
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && selectByFilter()}
+              placeholder="e.g. Status = Blocked"
+              className="flex-1 min-w-0 border rounded px-1 py-0.5 font-mono"
+            />
+            <button
+              onClick={selectByFilter}
+              disabled={!selectionFilter.trim()}
+              className="px-2 py-0.5 border rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              Select
+            </button>
+          </div>
+          {selectionFilterError && (
+            <p className="text-red-600">{selectionFilterError}</p>
+          )}
+        </div>
 
         {/* Sort status */}
         {sortConfig.rules.length > 0 && (
@@ -232,138 +776,118 @@ export function PrintView() {
         >
           Print All Cards ({sortedResults.length})
         </button>
-      </div>
+        {selectedResults.length > 0 && (
+          <button
+            onClick={() => setPrintOnly(selectedResults)}
+            className="px-6 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200"
+          >
+            Print Selected ({selectedResults.length})
+          </button>
+        )}
+        {newOrChangedResults.length > 0 && (
+          <button
+            onClick={() => setPrintOnly(newOrChangedResults)}
+            className="px-6 py-2 bg-amber-100 text-amber-800 rounded-lg hover:bg-amber-200"
+          >
+            Print New + Changed ({newOrChangedResults.length})
+          </button>
+        )}
 
-      <div className="space-y-4">
-        {sortedResults.map((result, displayIndex) => {
-          const { row, originalIndex, groupId, groupSize } = result
-          const enrichedRow = getEnrichedRow(row)
-          const allLayouts = getAllLayouts(enrichedRow)
-          const cardBgColor = evaluateCardBackground(enrichedRow as TicketRow)
-
-          // Find max grid extent for percentage calculations
-          const maxGridX = GRID_COLS // Always use full 12 columns
-          let maxGridY = 0
-          for (const layout of allLayouts) {
-            maxGridY = Math.max(maxGridY, layout.y + layout.h)
-          }
-          if (maxGridY === 0) maxGridY = 10 // default
-
-          // Content area percentage (leaving padding on edges)
-          const contentWidthPercent = 100 - 2 * BASE_PADDING_PERCENT
-          const contentHeightPercent = 100 - 2 * BASE_PADDING_PERCENT
+        {/* PDF export */}
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={pageRange}
+            onChange={(e) => setPageRange(e.target.value)}
+            placeholder={`Pages (1-${pageCount})`}
+            className="w-24 border rounded px-2 py-1 text-xs"
+            title="Page range, e.g. 1-3, 5. Leave empty for all pages."
+          />
+          <button
+            onClick={handleExportPdf}
+            disabled={pdfExportState.isRunning}
+            className="flex-1 px-3 py-2 bg-gray-700 text-white rounded-lg text-sm hover:bg-gray-800 disabled:opacity-50"
+          >
+            {pdfExportState.isRunning ? 'Exporting...' : 'Export PDF'}
+          </button>
+        </div>
+        {pdfExportState.error && (
+          <p className="text-xs text-red-600">{pdfExportState.error}</p>
+        )}
+        {pdfExportState.savedTo && !pdfExportState.isRunning && (
+          <p className="text-xs text-green-600 break-all">✓ Saved {pdfExportState.savedTo}</p>
+        )}
 
-          return (
-            <div
-              key={displayIndex}
-              className="print-card mx-auto shadow border border-gray-200"
-              style={{
-                width: CARD_WIDTH_MM,
-                height: CARD_HEIGHT_MM,
-                position: 'relative',
-                boxSizing: 'border-box',
-                backgroundColor: cardBgColor,
-                overflow: 'hidden'
-              }}
+        {/* Image export */}
+        <div className="border-t pt-2 space-y-1 text-xs">
+          <div className="flex items-center gap-2">
+            <select
+              value={imageFormat}
+              onChange={(e) => setImageFormat(e.target.value as ImageFormat)}
+              className="border rounded px-1 py-0.5"
             >
-              <div className="no-print absolute top-1 right-2 text-xs text-gray-400" style={{ zIndex: 10 }}>
-                {displayIndex + 1} / {sortedResults.length}
-              </div>
-
-              {/* Card numbering - bottom right corner */}
-              <div
-                className="print-show absolute bottom-1 right-2 text-xs text-gray-400"
-                style={{
-                  zIndex: 5,
-                  fontSize: '8px',
-                  fontWeight: 300
-                }}
-              >
-                #{displayIndex + 1}
-                {groupId && groupSize && groupSize > 1 && (
-                  <span className="ml-1 text-gray-300">
-                    (group: {groupSize})
-                  </span>
-                )}
-              </div>
-
-              {allLayouts.map(layout => {
-                const style = getFieldStyle(layout.i)
-                const displayName = getDisplayName(layout.i)
-                const fieldId = layout.i.startsWith('_enriched_')
-                  ? layout.i.replace('_enriched_', '')
-                  : layout.i
-                const value = enrichedRow[fieldId] || ''
-                const colors = evaluateColorRules(style.colorRules || [], enrichedRow as TicketRow)
-
-                // Calculate positions as percentages of the card
-                const leftPercent = BASE_PADDING_PERCENT + (layout.x / maxGridX) * contentWidthPercent
-                const topPercent = BASE_PADDING_PERCENT + (layout.y / maxGridY) * contentHeightPercent
-                const widthPercent = (layout.w / maxGridX) * contentWidthPercent
-                const heightPercent = (layout.h / maxGridY) * contentHeightPercent
-
-                // Auto-adjust font size based on content length and field type
-                const valueStr = String(value)
-                const isLongTextField = fieldId.toLowerCase().includes('description') ||
-                                        fieldId.toLowerCase().includes('notes') ||
-                                        fieldId.toLowerCase().includes('workshop') ||
-                                        fieldId.toLowerCase().includes('summary') ||
-                                        valueStr.length > 200
-
-                // Use smaller font for long text fields, larger for short fields
-                const scaledFontSize = isLongTextField
-                  ? Math.max(16, Math.min(style.fontSize, 18))  // Cap at 18px for long text
-                  : Math.max(24, style.fontSize)
-                const scaledLabelSize = Math.max(12, style.fontSize * 0.6)
-                const fieldPadding = 6
-
-                return (
-                  <div
-                    key={layout.i}
-                    className={`absolute ${style.showBorder ? 'border border-gray-400 rounded' : ''}`}
-                    style={{
-                      left: `${leftPercent}%`,
-                      top: `${topPercent}%`,
-                      width: `${widthPercent}%`,
-                      height: `${heightPercent}%`,
-                      padding: fieldPadding,
-                      boxSizing: 'border-box',
-                      backgroundColor: colors.backgroundColor || (style.showBorder ? '#fafafa' : 'transparent'),
-                      color: colors.textColor || 'inherit',
-                      overflow: 'hidden'
-                    }}
-                  >
-                    {style.showLabel && (
-                      <div
-                        className="truncate mb-1"
-                        style={{
-                          fontSize: scaledLabelSize,
-                          fontWeight: 500,
-                          color: colors.textColor || '#6b7280'
-                        }}
-                      >
-                        {displayName}
-                      </div>
-                    )}
-                    <div
-                      style={{
-                        fontSize: scaledFontSize,
-                        fontWeight: style.fontWeight,
-                        textAlign: style.textAlign,
-                        lineHeight: 1.3,
-                        overflow: 'hidden',
-                        wordWrap: 'break-word'
-                      }}
-                    >
-                      {renderMarkdown(String(value))}
-                    </div>
-                  </div>
-                )
-              })}
-            </div>
-          )
-        })}
+              <option value="png">PNG</option>
+              <option value="svg">SVG</option>
+            </select>
+            <select
+              value={imageDpi}
+              onChange={(e) => setImageDpi(Number(e.target.value))}
+              disabled={imageFormat === 'svg'}
+              className="border rounded px-1 py-0.5 disabled:opacity-50"
+              title={imageFormat === 'svg' ? 'SVG images are vector and print sharp at any size' : 'Image resolution'}
+            >
+              {IMAGE_DPI_OPTIONS.map(dpi => (
+                <option key={dpi} value={dpi}>{dpi} DPI</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1" title="Put all images into one ZIP file">
+              <input type="checkbox" checked={imageZip} onChange={(e) => setImageZip(e.target.checked)} />
+              ZIP
+            </label>
+          </div>
+          {selectedResults.length > 0 && (
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={imageSelectedOnly} onChange={(e) => setImageSelectedOnly(e.target.checked)} />
+              Selected cards only
+            </label>
+          )}
+          <button
+            onClick={handleExportImages}
+            disabled={imageExportState.isRunning || sortedResults.length === 0}
+            className="w-full px-3 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm hover:bg-gray-200 disabled:opacity-50"
+          >
+            {imageExportState.isRunning
+              ? `Exporting${imageExportState.progress ? ` ${imageExportState.progress}` : '...'}`
+              : `Export Images (${imageSelectedOnly && selectedResults.length > 0 ? selectedResults.length : sortedResults.length})`}
+          </button>
+          {imageExportState.error && (
+            <p className="text-red-600">{imageExportState.error}</p>
+          )}
+          {imageExportState.savedTo && !imageExportState.isRunning && (
+            <p className="text-green-600 break-all">✓ Saved {imageExportState.savedTo}</p>
+          )}
+        </div>
       </div>
+
+      {imposition.enabled ? (
+        <div ref={pagesRef} className="space-y-4">
+          {sheets.map((sheet, sheetIndex) => (
+            <Fragment key={sheetIndex}>
+              {renderSheet(sheet, sheetIndex, 'front')}
+              {printSettings.duplex && renderSheet(sheet, sheetIndex, 'back')}
+            </Fragment>
+          ))}
+        </div>
+      ) : (
+        <div ref={pagesRef} className="space-y-4">
+          {printResults.map((result, displayIndex) => (
+            <Fragment key={displayIndex}>
+              {renderCard(result, displayIndex)}
+              {printSettings.duplex && renderCard(result, displayIndex, 'back')}
+            </Fragment>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import { useDataStore } from '../stores/dataStore'
+import { ProjectData } from '../types'
+import {
+  PROJECT_FILE_EXTENSION,
+  ProjectFileTarget,
+  openProjectFile,
+  parseProject,
+  saveProjectFile,
+  serializeProject
+} from '../services/projectFile'
+
+function getProjectData(): ProjectData {
+  const state = useDataStore.getState()
+  return {
+    rows: state.rows,
+    columns: state.columns,
+    columnSchema: state.columnSchema,
+    fieldMappings: state.fieldMappings,
+    fieldLayouts: state.fieldLayouts,
+    backFieldLayouts: state.backFieldLayouts,
+    fieldStyles: state.fieldStyles,
+    cardBackgroundRules: state.cardBackgroundRules,
+    layoutVariants: state.layoutVariants,
+    sortConfig: state.sortConfig,
+    enrichmentGroup: state.enrichmentGroup,
+    aiSortedResults: state.aiSortedResults,
+    cardSize: state.cardSize,
+    printSettings: state.printSettings,
+    selectedCardKeys: state.selectedCardKeys
+  }
+}
+
+export function ProjectMenu() {
+  const hasData = useDataStore(state => state.rows.length > 0)
+  const loadProject = useDataStore(state => state.loadProject)
+  const [target, setTarget] = useState<ProjectFileTarget | null>(null)
+  const [status, setStatus] = useState<{ isRunning: boolean; error?: string }>({ isRunning: false })
+
+  const handleSave = async (saveAs: boolean) => {
+    setStatus({ isRunning: true })
+    try {
+      const saved = await saveProjectFile(
+        serializeProject(getProjectData()),
+        saveAs ? null : target,
+        target?.name || `ticket-cards.${PROJECT_FILE_EXTENSION}`
+      )
+      if (saved) setTarget(saved)
+      setStatus({ isRunning: false })
+    } catch (error) {
+      console.error('Saving project failed:', error)
+      setStatus({ isRunning: false, error: error instanceof Error ? error.message : 'Saving project failed' })
+    }
+  }
+
+  const handleOpen = async () => {
+    setStatus({ isRunning: true })
+    try {
+      const opened = await openProjectFile()
+      if (opened) {
+        loadProject(parseProject(opened.content))
+        setTarget(opened.target)
+      }
+      setStatus({ isRunning: false })
+    } catch (error) {
+      console.error('Opening project failed:', error)
+      setStatus({ isRunning: false, error: error instanceof Error ? error.message : 'Opening project failed' })
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={handleOpen}
+        disabled={status.isRunning}
+        className="px-3 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300 disabled:opacity-50"
+      >
+        Open
+      </button>
+      <button
+        onClick={() => handleSave(false)}
+        disabled={status.isRunning || !hasData}
+        className="px-3 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300 disabled:opacity-50"
+        title={target ? `Save to ${target.name}` : 'Save project'}
+      >
+        Save
+      </button>
+      <button
+        onClick={() => handleSave(true)}
+        disabled={status.isRunning || !hasData}
+        className="px-3 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300 disabled:opacity-50"
+      >
+        Save As
+      </button>
+      {target && <span className="text-xs text-gray-500 max-w-[10rem] truncate" title={target.name}>{target.name}</span>}
+      {status.error && <span className="text-xs text-red-600" title={status.error}>⚠ {status.error}</span>}
+    </div>
+  )
+}
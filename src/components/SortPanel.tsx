@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { SortConfig, SortRule, SortRuleType, AISortConfig, AISortMode, GroupingStrategy } from '../types'
 import { DEFAULT_AI_PROMPTS, analyzeGroupingOpportunities } from '../utils/aiSorting'
+import { COLUMN_TYPE_LABELS } from '../utils/columnTypes'
 import { useAIStore } from '../stores/aiStore'
 import { useDataStore } from '../stores/dataStore'
 
@@ -26,6 +27,7 @@ export function SortPanel({ config, columns, onConfigChange, onRunAIAnalysis, ai
   const [discoveringStrategies, setDiscoveringStrategies] = useState(false)
   const aiProvider = useAIStore(state => state.provider)
   const rows = useDataStore(state => state.rows)
+  const columnSchema = useDataStore(state => state.columnSchema)
 
   const handleAddRule = (type: SortRuleType) => {
     const newRule: SortRule = {
@@ -36,8 +38,7 @@ export function SortPanel({ config, columns, onConfigChange, onRunAIAnalysis, ai
     if (type === 'simple') {
       newRule.simple = {
         field: columns[0] || '',
-        direction: 'asc',
-        numeric: false
+        direction: 'asc'
       }
     } else if (type === 'linked-issues') {
       newRule.linkedIssues = {
@@ -353,17 +354,9 @@ Return a JSON object mapping variations to canonical ticket IDs: {"variation": "
                         </label>
                       </div>
 
-                      <label className="flex items-center text-xs">
-                        <input
-                          type="checkbox"
-                          checked={rule.simple.numeric}
-                          onChange={(e) => handleUpdateRule(rule.id, {
-                            simple: { ...rule.simple!, numeric: e.target.checked }
-                          })}
-                          className="mr-1"
-                        />
-                        Treat as numbers
-                      </label>
+                      <div className="text-xs text-gray-500">
+                        Sorted as: {COLUMN_TYPE_LABELS[columnSchema[rule.simple.field] ?? (rule.simple.numeric ? 'number' : 'text')]}
+                      </div>
                     </>
                   )}
 
@@ -1,51 +1,67 @@
 import { useState, useMemo } from 'react'
-import { useDataStore } from '../stores/dataStore'
-import { ColorRule, CardBackgroundRule } from '../types'
+import { getEditedDesign, useDataStore } from '../stores/dataStore'
+import { ColorRule, CardBackgroundRule, ColorScaleRule, ColorScaleStop, ConditionGroup, ConditionOperator } from '../types'
+import { formatCellValue, getCellValues } from '../utils/cellValues'
+import { describeConditionGroup } from '../utils/ruleEvaluator'
+import { computeScaleDomain, resolveScaleStops, scaleGradient } from '../utils/colorScale'
+import { formatFieldValue } from '../utils/fieldFormatters'
+import { filterRows } from '../utils/filterQuery'
+import { getFieldStyle } from '../utils/cardLayout'
+import { ConditionEditor, newCondition } from './ConditionEditor'
+import { FormatterChainEditor } from './FormatterEditor'
+
+const SCALE_STOP_LABELS = { min: 'Low', mid: 'Mid', max: 'High' } as const
+
+function formatScaleValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1)
+}
+
+function singleCondition(field: string, operator: ConditionOperator = 'equals', value = ''): ConditionGroup {
+  return { match: 'all', conditions: [{ ...newCondition(field), operator, value }] }
+}
 
 export function StylePanel() {
   const columns = useDataStore(state => state.columns)
   const rows = useDataStore(state => state.rows)
   const fieldMappings = useDataStore(state => state.fieldMappings)
-  const fieldStyles = useDataStore(state => state.fieldStyles)
+  const fieldStyles = useDataStore(state => getEditedDesign(state).fieldStyles)
   const updateFieldStyle = useDataStore(state => state.updateFieldStyle)
-  const cardBackgroundRules = useDataStore(state => state.cardBackgroundRules)
+  const cardBackgroundRules = useDataStore(state => getEditedDesign(state).cardBackgroundRules)
   const setCardBackgroundRules = useDataStore(state => state.setCardBackgroundRules)
+  const columnSchema = useDataStore(state => state.columnSchema)
+  const sortConfig = useDataStore(state => state.sortConfig)
+  const previewIndex = useDataStore(state => state.previewIndex)
+  const getEnrichedRow = useDataStore(state => state.getEnrichedRow)
 
   const [selectedField, setSelectedField] = useState<string | null>(null)
   const [showCardBg, setShowCardBg] = useState(true)
 
   const enabledFields = fieldMappings.filter(m => m.enabled)
 
+  // The row the designer is previewing, for the formatter preview
+  const filteredRows = useMemo(
+    () => filterRows(rows, sortConfig.filter, columns, columnSchema).rows,
+    [rows, sortConfig.filter, columns, columnSchema]
+  )
+  const previewRow = filteredRows.length > 0
+    ? getEnrichedRow(filteredRows[Math.min(previewIndex, filteredRows.length - 1)])
+    : null
+
   // Get unique values for a field
   const getUniqueValues = (fieldName: string): string[] => {
     const values = new Set<string>()
     for (const row of rows) {
-      const val = row[fieldName]
-      if (val !== null && val !== undefined && String(val).trim() !== '') {
-        values.add(String(val))
+      for (const val of getCellValues(row[fieldName])) {
+        if (val.trim() !== '') values.add(val)
       }
     }
     return Array.from(values).sort()
   }
 
-  const getFieldStyle = (fieldId: string) => {
-    return fieldStyles.find(s => s.fieldId === fieldId) || {
-      fieldId,
-      fontSize: 12,
-      fontWeight: 'normal' as const,
-      textAlign: 'left' as const,
-      showLabel: true,
-      showBorder: true,
-      colorRules: []
-    }
-  }
-
   const addColorRule = (fieldId: string) => {
-    const style = getFieldStyle(fieldId)
+    const style = getFieldStyle(fieldStyles, fieldId)
     const newRule: ColorRule = {
-      field: columns[0] || '',
-      operator: 'equals',
-      value: '',
+      condition: singleCondition(columns[0] || ''),
       backgroundColor: '#dcfce7',
       textColor: '#166534'
     }
@@ -55,24 +71,40 @@ export function StylePanel() {
   }
 
   const updateColorRule = (fieldId: string, index: number, updates: Partial<ColorRule>) => {
-    const style = getFieldStyle(fieldId)
+    const style = getFieldStyle(fieldStyles, fieldId)
     const newRules = [...(style.colorRules || [])]
     newRules[index] = { ...newRules[index], ...updates }
     updateFieldStyle(fieldId, { colorRules: newRules })
   }
 
   const removeColorRule = (fieldId: string, index: number) => {
-    const style = getFieldStyle(fieldId)
+    const style = getFieldStyle(fieldStyles, fieldId)
     const newRules = (style.colorRules || []).filter((_, i) => i !== index)
     updateFieldStyle(fieldId, { colorRules: newRules })
   }
 
+  // Numeric and date columns can drive a colour scale
+  const scaleColumns = columns.filter(col => ['number', 'date', 'datetime'].includes(columnSchema[col]))
+
+  const addColorScale = (fieldId: string) => {
+    const colorScale: ColorScaleRule = {
+      field: scaleColumns.includes(fieldId) ? fieldId : scaleColumns[0] || fieldId,
+      target: 'background',
+      min: { color: '#dcfce7' },
+      max: { color: '#fca5a5' }
+    }
+    updateFieldStyle(fieldId, { colorScale })
+  }
+
+  const updateColorScale = (fieldId: string, updates: Partial<ColorScaleRule>) => {
+    const colorScale = getFieldStyle(fieldStyles, fieldId).colorScale
+    if (colorScale) updateFieldStyle(fieldId, { colorScale: { ...colorScale, ...updates } })
+  }
+
   // Card background rule helpers
   const addCardBgRule = () => {
     const newRule: CardBackgroundRule = {
-      field: columns[0] || '',
-      operator: 'equals',
-      value: '',
+      condition: singleCondition(columns[0] || ''),
       backgroundColor: '#fef3c7'
     }
     setCardBackgroundRules([...cardBackgroundRules, newRule])
@@ -92,7 +124,32 @@ export function StylePanel() {
     return null
   }
 
-  const currentStyle = selectedField ? getFieldStyle(selectedField) : null
+  const currentStyle = selectedField ? getFieldStyle(fieldStyles, selectedField) : null
+  const currentScale = currentStyle?.colorScale
+  const scaleDomain = currentScale ? computeScaleDomain(rows, currentScale.field, columnSchema) : null
+  const scaleStops = currentScale ? resolveScaleStops(currentScale, scaleDomain) : null
+  const isDateScale = currentScale ? ['date', 'datetime'].includes(columnSchema[currentScale.field]) : false
+
+  const renderScaleStop = (key: keyof typeof SCALE_STOP_LABELS, stop: ColorScaleStop, autoValue?: number) => (
+    <div key={key} className="flex items-center gap-1">
+      <span className="w-8 text-gray-500">{SCALE_STOP_LABELS[key]}:</span>
+      <input
+        type="color"
+        value={stop.color}
+        onChange={(e) => updateColorScale(selectedField!, { [key]: { ...stop, color: e.target.value } })}
+        className="w-6 h-6 border rounded cursor-pointer"
+      />
+      <input
+        type="number"
+        value={stop.value ?? ''}
+        onChange={(e) => updateColorScale(selectedField!, {
+          [key]: { ...stop, value: e.target.value === '' ? undefined : Number(e.target.value) }
+        })}
+        placeholder={autoValue !== undefined ? `Auto (${formatScaleValue(autoValue)})` : 'Auto'}
+        className="flex-1 min-w-0 border rounded px-1 py-0.5 text-xs"
+      />
+    </div>
+  )
 
   return (
     <div className="bg-white rounded-lg shadow p-4">
@@ -120,53 +177,14 @@ export function StylePanel() {
               <div className="space-y-2 mb-2">
                 {cardBackgroundRules.map((rule, idx) => (
                   <div key={idx} className="p-2 bg-gray-50 rounded text-xs border">
-                    <div className="flex gap-1 mb-1">
-                      <span className="text-gray-500">If</span>
-                      <select
-                        value={rule.field}
-                        onChange={(e) => updateCardBgRule(idx, { field: e.target.value })}
-                        className="flex-1 border rounded px-1 py-0.5 text-xs"
-                      >
-                        {columns.map(col => (
-                          <option key={col} value={col}>{col}</option>
-                        ))}
-                      </select>
-                    </div>
-
-                    <div className="flex gap-1 mb-1">
-                      <select
-                        value={rule.operator}
-                        onChange={(e) => updateCardBgRule(idx, { operator: e.target.value as CardBackgroundRule['operator'] })}
-                        className="border rounded px-1 py-0.5 text-xs"
-                      >
-                        <option value="equals">equals</option>
-                        <option value="contains">contains</option>
-                        <option value="notEmpty">is not empty</option>
-                        <option value="empty">is empty</option>
-                      </select>
-
-                      {rule.operator === 'equals' && (
-                        <select
-                          value={rule.value}
-                          onChange={(e) => updateCardBgRule(idx, { value: e.target.value })}
-                          className="flex-1 border rounded px-1 py-0.5 text-xs"
-                        >
-                          <option value="">Select value...</option>
-                          {getUniqueValues(rule.field).map(val => (
-                            <option key={val} value={val}>{val}</option>
-                          ))}
-                        </select>
-                      )}
-
-                      {rule.operator === 'contains' && (
-                        <input
-                          type="text"
-                          value={rule.value}
-                          onChange={(e) => updateCardBgRule(idx, { value: e.target.value })}
-                          placeholder="Value..."
-                          className="flex-1 border rounded px-1 py-0.5 text-xs"
-                        />
-                      )}
+                    <div className="text-gray-500 mb-1">If</div>
+                    <div className="mb-2">
+                      <ConditionEditor
+                        group={rule.condition}
+                        onChange={(condition) => updateCardBgRule(idx, { condition })}
+                        columns={columns}
+                        getUniqueValues={getUniqueValues}
+                      />
                     </div>
 
                     <div className="flex gap-2 items-center">
@@ -265,6 +283,105 @@ export function StylePanel() {
               />
               <span className="text-xs w-6">{currentStyle.fontSize}</span>
             </div>
+            <div className="flex items-center gap-2 mt-2 text-xs">
+              <label className="flex items-center gap-1" title="Shrink the text until it fits the field box">
+                <input
+                  type="checkbox"
+                  checked={!!currentStyle.autoFit}
+                  onChange={(e) => updateFieldStyle(selectedField, {
+                    autoFit: e.target.checked
+                      ? { minFontSize: 8, maxFontSize: Math.max(currentStyle.fontSize, 24) }
+                      : undefined
+                  })}
+                />
+                Auto-fit
+              </label>
+              {currentStyle.autoFit && (
+                <>
+                  <input
+                    type="number"
+                    min={4}
+                    max={currentStyle.autoFit.maxFontSize}
+                    value={currentStyle.autoFit.minFontSize}
+                    onChange={(e) => updateFieldStyle(selectedField, {
+                      autoFit: { ...currentStyle.autoFit!, minFontSize: Math.max(4, Number(e.target.value) || 4) }
+                    })}
+                    className="w-12 border rounded px-1 py-0.5"
+                    title="Smallest font size"
+                  />
+                  <span className="text-gray-500">to</span>
+                  <input
+                    type="number"
+                    min={currentStyle.autoFit.minFontSize}
+                    max={96}
+                    value={currentStyle.autoFit.maxFontSize}
+                    onChange={(e) => updateFieldStyle(selectedField, {
+                      autoFit: { ...currentStyle.autoFit!, maxFontSize: Math.min(96, Number(e.target.value) || 4) }
+                    })}
+                    className="w-12 border rounded px-1 py-0.5"
+                    title="Largest font size"
+                  />
+                  <span className="text-gray-500">px</span>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Formatting */}
+          <div className="mb-4">
+            <div className="text-xs font-medium text-gray-600 mb-2">Formatting</div>
+            <FormatterChainEditor
+              formatters={currentStyle.formatters || []}
+              onChange={(formatters) => updateFieldStyle(selectedField, { formatters })}
+            />
+            {previewRow && (
+              <div className="mt-2 p-2 bg-gray-50 rounded border text-xs space-y-0.5">
+                <div className="text-gray-400 truncate" title={formatCellValue(previewRow[selectedField])}>
+                  Raw: {formatCellValue(previewRow[selectedField]) || <em>empty</em>}
+                </div>
+                <div className="text-gray-700 whitespace-pre-wrap break-words">
+                  Card: {formatFieldValue(previewRow[selectedField], columnSchema[selectedField], currentStyle.formatters) || <em>empty</em>}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Visibility */}
+          <div className="mb-4">
+            <label className="flex items-center gap-1 text-xs font-medium text-gray-600 mb-2">
+              <input
+                type="checkbox"
+                checked={!!currentStyle.visibility}
+                onChange={(e) => updateFieldStyle(selectedField, {
+                  visibility: e.target.checked
+                    ? { condition: singleCondition(columns[0] || '', 'notEmpty'), collapse: true }
+                    : undefined
+                })}
+              />
+              Only show this field when...
+            </label>
+            {currentStyle.visibility && (
+              <div className="p-2 bg-gray-50 rounded text-xs border space-y-2">
+                <ConditionEditor
+                  group={currentStyle.visibility.condition}
+                  onChange={(condition) => updateFieldStyle(selectedField, {
+                    visibility: { ...currentStyle.visibility!, condition }
+                  })}
+                  columns={columns}
+                  getUniqueValues={getUniqueValues}
+                />
+                <label className="flex items-center gap-1 text-gray-600" title="Fields below move up into the space when nothing else shares its rows">
+                  <input
+                    type="checkbox"
+                    checked={currentStyle.visibility.collapse}
+                    onChange={(e) => updateFieldStyle(selectedField, {
+                      visibility: { ...currentStyle.visibility!, collapse: e.target.checked }
+                    })}
+                  />
+                  Collapse the space when hidden
+                </label>
+              </div>
+            )}
           </div>
 
           {/* Color Rules */}
@@ -287,53 +404,14 @@ export function StylePanel() {
               <div className="space-y-2">
                 {(currentStyle.colorRules || []).map((rule, idx) => (
                   <div key={idx} className="p-2 bg-gray-50 rounded text-xs border">
-                    <div className="flex gap-1 mb-1">
-                      <span className="text-gray-500">If</span>
-                      <select
-                        value={rule.field}
-                        onChange={(e) => updateColorRule(selectedField, idx, { field: e.target.value })}
-                        className="flex-1 border rounded px-1 py-0.5 text-xs"
-                      >
-                        {columns.map(col => (
-                          <option key={col} value={col}>{col}</option>
-                        ))}
-                      </select>
-                    </div>
-
-                    <div className="flex gap-1 mb-1">
-                      <select
-                        value={rule.operator}
-                        onChange={(e) => updateColorRule(selectedField, idx, { operator: e.target.value as ColorRule['operator'] })}
-                        className="border rounded px-1 py-0.5 text-xs"
-                      >
-                        <option value="equals">equals</option>
-                        <option value="contains">contains</option>
-                        <option value="notEmpty">is not empty</option>
-                        <option value="empty">is empty</option>
-                      </select>
-
-                      {rule.operator === 'equals' && (
-                        <select
-                          value={rule.value}
-                          onChange={(e) => updateColorRule(selectedField, idx, { value: e.target.value })}
-                          className="flex-1 border rounded px-1 py-0.5 text-xs"
-                        >
-                          <option value="">Select value...</option>
-                          {getUniqueValues(rule.field).map(val => (
-                            <option key={val} value={val}>{val}</option>
-                          ))}
-                        </select>
-                      )}
-
-                      {rule.operator === 'contains' && (
-                        <input
-                          type="text"
-                          value={rule.value}
-                          onChange={(e) => updateColorRule(selectedField, idx, { value: e.target.value })}
-                          placeholder="Value..."
-                          className="flex-1 border rounded px-1 py-0.5 text-xs"
-                        />
-                      )}
+                    <div className="text-gray-500 mb-1">If</div>
+                    <div className="mb-2">
+                      <ConditionEditor
+                        group={rule.condition}
+                        onChange={(condition) => updateColorRule(selectedField, idx, { condition })}
+                        columns={columns}
+                        getUniqueValues={getUniqueValues}
+                      />
                     </div>
 
                     <div className="flex gap-2 items-center">
@@ -371,25 +449,103 @@ export function StylePanel() {
                         color: rule.textColor
                       }}
                     >
-                      Preview: {rule.value || 'Sample'}
+                      Preview: {describeConditionGroup(rule.condition) || 'Sample'}
                     </div>
                   </div>
                 ))}
               </div>
             )}
 
+            {/* Color Scale */}
+            <div className="mt-3 pt-2 border-t">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-medium text-gray-600">Color Scale</span>
+                {currentScale ? (
+                  <button
+                    onClick={() => updateFieldStyle(selectedField, { colorScale: undefined })}
+                    className="text-xs text-red-500 hover:text-red-700"
+                  >
+                    Remove
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => addColorScale(selectedField)}
+                    className="text-xs text-blue-600 hover:text-blue-700"
+                  >
+                    + Add Scale
+                  </button>
+                )}
+              </div>
+
+              {!currentScale ? (
+                <p className="text-xs text-gray-400 italic">
+                  Shade by a number (e.g. Story Points) or by age in days for date columns. Color rules take priority.
+                </p>
+              ) : (
+                <div className="p-2 bg-gray-50 rounded text-xs border space-y-2">
+                  <div className="flex gap-1 items-center">
+                    <select
+                      value={currentScale.field}
+                      onChange={(e) => updateColorScale(selectedField, { field: e.target.value })}
+                      className="flex-1 min-w-0 border rounded px-1 py-0.5 text-xs"
+                    >
+                      {(scaleColumns.includes(currentScale.field) ? scaleColumns : [currentScale.field, ...scaleColumns]).map(col => (
+                        <option key={col} value={col}>{col}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={currentScale.target}
+                      onChange={(e) => updateColorScale(selectedField, { target: e.target.value as ColorScaleRule['target'] })}
+                      className="border rounded px-1 py-0.5 text-xs"
+                    >
+                      <option value="background">Field background</option>
+                      <option value="cardBorder">Card border</option>
+                    </select>
+                  </div>
+
+                  {renderScaleStop('min', currentScale.min, scaleDomain?.min)}
+                  {currentScale.mid && renderScaleStop(
+                    'mid',
+                    currentScale.mid,
+                    scaleDomain ? (scaleDomain.min + scaleDomain.max) / 2 : undefined
+                  )}
+                  {renderScaleStop('max', currentScale.max, scaleDomain?.max)}
+
+                  <button
+                    onClick={() => updateColorScale(selectedField, { mid: currentScale.mid ? undefined : { color: '#fef08a' } })}
+                    className="text-blue-600 hover:text-blue-700"
+                  >
+                    {currentScale.mid ? '− Remove midpoint' : '+ Add midpoint'}
+                  </button>
+
+                  {/* Legend */}
+                  {scaleStops ? (
+                    <div>
+                      <div className="h-3 rounded border" style={{ background: scaleGradient(scaleStops) }} />
+                      <div className="flex justify-between text-gray-500 mt-0.5">
+                        {scaleStops.map((stop, i) => (
+                          <span key={i}>{formatScaleValue(stop.value)}</span>
+                        ))}
+                      </div>
+                      {isDateScale && <div className="text-gray-400 text-center">days old</div>}
+                    </div>
+                  ) : (
+                    <p className="text-gray-400 italic">No numeric values in this column. Set Low and High to use the scale.</p>
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Quick presets */}
             <div className="mt-3 pt-2 border-t">
               <div className="text-xs text-gray-500 mb-1">Quick presets:</div>
               <div className="flex gap-1 flex-wrap">
                 <button
                   onClick={() => {
-                    const style = getFieldStyle(selectedField)
+                    const style = getFieldStyle(fieldStyles, selectedField)
                     updateFieldStyle(selectedField, {
                       colorRules: [...(style.colorRules || []), {
-                        field: selectedField,
-                        operator: 'equals',
-                        value: 'Yes',
+                        condition: singleCondition(selectedField, 'equals', 'Yes'),
                         backgroundColor: '#dcfce7',
                         textColor: '#166534'
                       }]
@@ -401,12 +557,10 @@ export function StylePanel() {
                 </button>
                 <button
                   onClick={() => {
-                    const style = getFieldStyle(selectedField)
+                    const style = getFieldStyle(fieldStyles, selectedField)
                     updateFieldStyle(selectedField, {
                       colorRules: [...(style.colorRules || []), {
-                        field: selectedField,
-                        operator: 'equals',
-                        value: 'No',
+                        condition: singleCondition(selectedField, 'equals', 'No'),
                         backgroundColor: '#fee2e2',
                         textColor: '#991b1b'
                       }]
@@ -418,12 +572,10 @@ export function StylePanel() {
                 </button>
                 <button
                   onClick={() => {
-                    const style = getFieldStyle(selectedField)
+                    const style = getFieldStyle(fieldStyles, selectedField)
                     updateFieldStyle(selectedField, {
                       colorRules: [...(style.colorRules || []), {
-                        field: selectedField,
-                        operator: 'notEmpty',
-                        value: '',
+                        condition: singleCondition(selectedField, 'notEmpty'),
                         backgroundColor: '#dbeafe',
                         textColor: '#1e40af'
                       }]
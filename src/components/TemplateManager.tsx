@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react'
 import { useTemplateStore } from '../stores/templateStore'
 import { useDataStore } from '../stores/dataStore'
+import { adaptTemplate } from '../utils/templateMapping'
 
 export function TemplateManager() {
   const [showModal, setShowModal] = useState(false)
@@ -24,22 +25,30 @@ export function TemplateManager() {
 
   const fieldMappings = useDataStore(state => state.fieldMappings)
   const fieldLayouts = useDataStore(state => state.fieldLayouts)
+  const backFieldLayouts = useDataStore(state => state.backFieldLayouts)
   const fieldStyles = useDataStore(state => state.fieldStyles)
   const columns = useDataStore(state => state.columns)
   const cardBackgroundRules = useDataStore(state => state.cardBackgroundRules)
+  const layoutVariants = useDataStore(state => state.layoutVariants)
   const sortConfig = useDataStore(state => state.sortConfig)
+  const cardSize = useDataStore(state => state.cardSize)
+  const printSettings = useDataStore(state => state.printSettings)
   const setFieldMappings = useDataStore(state => state.setFieldMappings)
   const setFieldLayouts = useDataStore(state => state.setFieldLayouts)
+  const setBackFieldLayouts = useDataStore(state => state.setBackFieldLayouts)
   const setFieldStyles = useDataStore(state => state.setFieldStyles)
   const setCardBackgroundRules = useDataStore(state => state.setCardBackgroundRules)
+  const setLayoutVariants = useDataStore(state => state.setLayoutVariants)
   const setSortConfig = useDataStore(state => state.setSortConfig)
+  const setCardSize = useDataStore(state => state.setCardSize)
+  const setPrintSettings = useDataStore(state => state.setPrintSettings)
 
   const enrichmentGroup = useDataStore(state => state.enrichmentGroup)
   const setEnrichmentGroup = useDataStore(state => state.setEnrichmentGroup)
 
   const handleSaveTemplate = () => {
     if (!templateName.trim()) return
-    saveTemplate(templateName.trim(), fieldMappings, fieldLayouts, fieldStyles, cardBackgroundRules, sortConfig)
+    saveTemplate(templateName.trim(), fieldMappings, fieldLayouts, fieldStyles, cardBackgroundRules, sortConfig, cardSize, backFieldLayouts, layoutVariants, printSettings)
     setTemplateName('')
   }
 
@@ -47,116 +56,31 @@ export function TemplateManager() {
     const template = loadTemplate(id)
     if (!template) return
 
-    // Smart column mapping: adapt template to current Excel columns
-    // Build a map from old column names to new column names
-    const columnMap = new Map<string, string>()
-    const usedCurrentColumns = new Set<string>()
-
-    // First pass: match by exact column name
-    for (const oldMapping of template.fieldMappings) {
-      if (columns.includes(oldMapping.columnName)) {
-        columnMap.set(oldMapping.columnName, oldMapping.columnName)
-        usedCurrentColumns.add(oldMapping.columnName)
-      }
-    }
-
-    // Second pass: match by column index for columns that weren't matched by name
-    for (const oldMapping of template.fieldMappings) {
-      if (!columnMap.has(oldMapping.columnName)) {
-        const columnIndex = oldMapping.columnIndex ?? -1
-        if (columnIndex >= 0 && columnIndex < columns.length) {
-          const newColumnName = columns[columnIndex]
-          if (!usedCurrentColumns.has(newColumnName)) {
-            columnMap.set(oldMapping.columnName, newColumnName)
-            usedCurrentColumns.add(newColumnName)
-          }
-        }
-      }
-    }
-
-    // Transform field mappings
-    const newMappings = columns.map((col, index) => {
-      // Find if this column was in the template (by name or mapped from index)
-      const oldColumnName = Array.from(columnMap.entries()).find(([_, newName]) => newName === col)?.[0]
-      const oldMapping = oldColumnName ? template.fieldMappings.find(m => m.columnName === oldColumnName) : null
-
-      if (oldMapping) {
-        return {
-          columnName: col,
-          displayName: oldMapping.displayName !== oldMapping.columnName ? oldMapping.displayName : col,
-          enabled: oldMapping.enabled,
-          columnIndex: index
-        }
-      } else {
-        // New column not in template - add as disabled
-        return {
-          columnName: col,
-          displayName: col,
-          enabled: false,
-          columnIndex: index
-        }
-      }
-    })
-
-    // Transform field layouts
-    const newLayouts = template.fieldLayouts
-      .map(layout => {
-        const newColumnName = columnMap.get(layout.i)
-        if (newColumnName) {
-          return { ...layout, i: newColumnName }
-        }
-        return null
-      })
-      .filter((l): l is NonNullable<typeof l> => l !== null)
-
-    // Transform field styles
-    const newStyles = template.fieldStyles
-      .map(style => {
-        const newColumnName = columnMap.get(style.fieldId)
-        if (newColumnName) {
-          // Also update color rules to use new column names
-          const updatedColorRules = (style.colorRules || []).map(rule => ({
-            ...rule,
-            field: columnMap.get(rule.field) || rule.field
-          }))
-          return { ...style, fieldId: newColumnName, colorRules: updatedColorRules }
-        }
-        return null
-      })
-      .filter((s): s is NonNullable<typeof s> => s !== null)
-
-    // Add default styles for new columns not in template
-    const styledColumns = new Set(newStyles.map(s => s.fieldId))
-    for (const col of columns) {
-      if (!styledColumns.has(col)) {
-        newStyles.push({
-          fieldId: col,
-          fontSize: 14,
-          fontWeight: 'normal',
-          textAlign: 'left',
-          showLabel: true,
-          showBorder: true,
-          colorRules: []
-        })
-      }
-    }
+    const { fieldMappings: newMappings, design, layoutVariants: variants } = adaptTemplate(template, columns)
 
+    // Variants first: replacing them returns the designer to the default design
+    setLayoutVariants(variants)
     setFieldMappings(newMappings)
-    setFieldLayouts(newLayouts)
-    setFieldStyles(newStyles)
-
-    // Load card background rules, updating field names based on column mapping
-    const updatedCardBgRules = (template.cardBackgroundRules || []).map(rule => ({
-      ...rule,
-      field: columnMap.get(rule.field) || rule.field
-    }))
-    setCardBackgroundRules(updatedCardBgRules)
+    setFieldLayouts(design.fieldLayouts)
+    setBackFieldLayouts(design.backFieldLayouts)
+    setFieldStyles(design.fieldStyles)
+    setCardBackgroundRules(design.cardBackgroundRules)
 
     // Load sort config if present
     if (template.sortConfig) {
       setSortConfig(template.sortConfig)
     }
 
+    // Load card size if present (older templates keep the current size)
+    if (template.cardSize) {
+      setCardSize(template.cardSize)
+    }
+
+    // Print settings after the size, which can pick a label sheet's imposition
+    if (template.printSettings) {
+      setPrintSettings(template.printSettings)
+    }
+
     setShowModal(false)
   }
 
@@ -303,7 +227,9 @@ export function TemplateManager() {
                         >
                           <div>
                             <div className="font-medium">{t.name}</div>
-                            <div className="text-xs text-gray-400">{formatDate(t.createdAt)}</div>
+                            <div className="text-xs text-gray-400">
+                              {formatDate(t.createdAt)}{t.cardSize && ` - ${t.cardSize.label}`}
+                            </div>
                           </div>
                           <div className="flex gap-2">
                             <button
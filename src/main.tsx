@@ -1,10 +1,19 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { PrintView } from './components/PrintView'
+import { runCliJob } from './services/batchPrint'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-)
+const root = ReactDOM.createRoot(document.getElementById('root')!)
+
+// The command line (electron/main.ts) opens a hidden window with ?cli to print a PDF
+if (new URLSearchParams(window.location.search).has('cli') && window.electronAPI) {
+  runCliJob(() => root.render(<PrintView />))
+} else {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  )
+}
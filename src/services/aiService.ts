@@ -1,11 +1,13 @@
 import { AIProvider, ChatMessage, TicketRow } from '../types'
+import { formatCellValue } from '../utils/cellValues'
 
 export async function sendChatMessage(
   provider: AIProvider,
   messages: ChatMessage[],
-  ticketData: TicketRow[]
+  ticketData: TicketRow[],
+  filter?: string
 ): Promise<string> {
-  const systemPrompt = buildSystemPrompt(ticketData)
+  const systemPrompt = buildSystemPrompt(ticketData, filter)
 
   const fullMessages: ChatMessage[] = [
     { role: 'system', content: systemPrompt },
@@ -24,10 +26,11 @@ export async function sendChatMessage(
   }
 }
 
-function buildSystemPrompt(ticketData: TicketRow[]): string {
+function buildSystemPrompt(ticketData: TicketRow[], filter?: string): string {
   const ticketSummary = ticketData.slice(0, 100).map((row, i) => {
     const entries = Object.entries(row)
-      .filter(([_, v]) => v !== null && v !== undefined && v !== '')
+      .map(([k, v]) => [k, formatCellValue(v)])
+      .filter(([_, v]) => v !== '')
       .map(([k, v]) => `${k}: ${v}`)
       .join(', ')
     return `${i + 1}. ${entries}`
@@ -35,7 +38,7 @@ function buildSystemPrompt(ticketData: TicketRow[]): string {
 
   return `You are an assistant helping analyze and manage tickets. You have access to the following ticket data:
 
-TICKET DATA (${ticketData.length} total tickets):
+TICKET DATA (${ticketData.length} total tickets${filter ? `, filtered by: ${filter}` : ''}):
 ${ticketSummary}
 ${ticketData.length > 100 ? `\n... and ${ticketData.length - 100} more tickets` : ''}
 
@@ -0,0 +1,84 @@
+import { flushSync } from 'react-dom'
+import { CliJob } from '../types'
+import { useDataStore } from '../stores/dataStore'
+import { useTemplateStore } from '../stores/templateStore'
+import { loadWorkbook, parseSheet } from './excelParser'
+import { adaptTemplate } from '../utils/templateMapping'
+import { filterRows } from '../utils/filterQuery'
+
+/**
+ * Runs a command-line batch print inside the hidden window opened by
+ * electron/main.ts: loads the file and saved template into the stores,
+ * renders the print view and lets the main process write the PDF.
+ * Failures are reported back so the command exits with an error.
+ */
+export async function runCliJob(renderPrintView: () => void): Promise<void> {
+  const api = window.electronAPI!
+  try {
+    const job = await api.getCliJob()
+    if (!job) throw new Error('No command-line job to run')
+
+    const cardCount = await loadCliJob(job)
+    flushSync(renderPrintView)
+    await waitForCards()
+    await api.finishCliJob({ cardCount })
+  } catch (error) {
+    await api.failCliJob(error instanceof Error ? error.message : String(error))
+  }
+}
+
+/**
+ * Imports the sheet and applies the template with its sort config, card
+ * size and print settings, like loading a file and then the template by hand. Returns the card count.
+ */
+async function loadCliJob(job: CliJob): Promise<number> {
+  const { workbook, sheetNames } = await loadWorkbook(new File([job.data as BlobPart], job.inputName))
+  const sheetName = job.sheet ?? sheetNames[0]
+  if (!sheetNames.includes(sheetName)) {
+    throw new Error(`Sheet "${sheetName}" not found. Sheets in ${job.inputName}: ${sheetNames.join(', ')}`)
+  }
+  const { rows, columns } = parseSheet(workbook, sheetName)
+
+  const { templates, loadTemplate } = useTemplateStore.getState()
+  const saved = templates.find(t => t.name === job.template)
+    ?? templates.find(t => t.name.toLowerCase() === job.template.toLowerCase())
+  const template = saved && loadTemplate(saved.id)
+  if (!template) {
+    const names = templates.map(t => `"${t.name}"`).join(', ') || 'none'
+    throw new Error(`Template "${job.template}" not found. Saved templates: ${names}`)
+  }
+
+  const store = useDataStore.getState()
+  // A scripted print isn't an import; the app's next change report stays as it was
+  store.setData(rows, columns, { recordImport: false })
+
+  const { fieldMappings, design, layoutVariants } = adaptTemplate(template, columns)
+  store.setLayoutVariants(layoutVariants)
+  store.setFieldMappings(fieldMappings)
+  store.setFieldLayouts(design.fieldLayouts)
+  store.setBackFieldLayouts(design.backFieldLayouts)
+  store.setFieldStyles(design.fieldStyles)
+  store.setCardBackgroundRules(design.cardBackgroundRules)
+  if (template.sortConfig) store.setSortConfig(template.sortConfig)
+  if (template.cardSize) store.setCardSize(template.cardSize)
+  if (template.printSettings) store.setPrintSettings(template.printSettings)
+
+  // PrintView filters the same way; an empty PDF is almost certainly a mistake
+  const { sortConfig, columnSchema } = useDataStore.getState()
+  const printed = filterRows(rows, sortConfig.filter, columns, columnSchema)
+  if (printed.error) throw new Error(`Invalid filter in template: ${printed.error}`)
+  if (printed.rows.length === 0) throw new Error(`No tickets to print in sheet "${sheetName}"`)
+  return printed.rows.length
+}
+
+/**
+ * Waits until fonts and images (logos, QR codes) have loaded and FitText
+ * has had a few frames to measure, so the PDF shows the finished cards
+ */
+async function waitForCards(): Promise<void> {
+  await document.fonts.ready
+  await Promise.all(Array.from(document.images).map(img => img.decode().catch(() => undefined)))
+  for (let i = 0; i < 3; i++) {
+    await new Promise(resolve => requestAnimationFrame(resolve))
+  }
+}
@@ -18,7 +18,7 @@ export async function loadWorkbook(file: File): Promise<WorkbookInfo> {
     reader.onload = (e) => {
       try {
         const data = e.target?.result
-        const workbook = XLSX.read(data, { type: 'array' })
+        const workbook = XLSX.read(data, { type: 'array', cellDates: true })
 
         resolve({
           sheetNames: workbook.SheetNames,
@@ -41,30 +41,69 @@ export function parseSheet(workbook: XLSX.WorkBook, sheetName: string): ParseRes
     throw new Error(`Sheet "${sheetName}" not found`)
   }
 
-  // Convert to JSON with headers
-  const jsonData = XLSX.utils.sheet_to_json<TicketRow>(worksheet, {
-    defval: ''
-  })
-
-  // Extract column names from first row
-  const ref = worksheet['!ref']
-  if (!ref) {
+  if (!worksheet['!ref']) {
     return { rows: [], columns: [] }
   }
 
-  const range = XLSX.utils.decode_range(ref)
+  // Read raw rows so repeated headers aren't renamed ("Labels_1") by sheet_to_json
+  const [headerRow = [], ...dataRows] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    defval: '',
+    blankrows: false
+  })
+
+  const headers = headerRow.map((cell, index) =>
+    cell !== '' && cell != null ? String(cell) : `Column ${index + 1}`
+  )
+  const { columns, multiValueColumns } = mergeDuplicateHeaders(headers)
+
+  const rows = dataRows.map(values => {
+    const row: TicketRow = {}
+    for (const column of multiValueColumns) row[column] = []
+
+    headers.forEach((header, index) => {
+      const raw = values[index] ?? ''
+      const value = raw instanceof Date ? formatDateCell(raw) : raw as string | number
+      if (multiValueColumns.has(header)) {
+        if (String(value).trim() !== '') (row[header] as string[]).push(String(value))
+      } else {
+        row[header] = value
+      }
+    })
+    return row
+  })
+
+  return { rows, columns }
+}
+
+/**
+ * Date cells become ISO strings ("2024-01-31" or "2024-01-31T09:30:00") in
+ * local time, matching what the spreadsheet shows.
+ */
+function formatDateCell(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) return day
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+/**
+ * Jira CSV exports repeat a header once per value (Labels, Labels, Sprint, ...).
+ * Repeated headers become one column whose cells hold every value as a list.
+ */
+function mergeDuplicateHeaders(headers: string[]): { columns: string[]; multiValueColumns: Set<string> } {
   const columns: string[] = []
+  const multiValueColumns = new Set<string>()
 
-  for (let col = range.s.c; col <= range.e.c; col++) {
-    const cellAddress = XLSX.utils.encode_cell({ r: range.s.r, c: col })
-    const cell = worksheet[cellAddress]
-    columns.push(cell ? String(cell.v) : `Column ${col + 1}`)
+  for (const header of headers) {
+    if (columns.includes(header)) {
+      multiValueColumns.add(header)
+    } else {
+      columns.push(header)
+    }
   }
 
-  return {
-    rows: jsonData,
-    columns
-  }
+  return { columns, multiValueColumns }
 }
 
 // Legacy function for backward compatibility
@@ -74,7 +113,7 @@ export async function parseExcelFile(file: File): Promise<ParseResult> {
 }
 
 export function parseCSVString(csvString: string): ParseResult {
-  const workbook = XLSX.read(csvString, { type: 'string' })
+  const workbook = XLSX.read(csvString, { type: 'string', cellDates: true })
   const sheetName = workbook.SheetNames[0]
   return parseSheet(workbook, sheetName)
 }
@@ -0,0 +1,291 @@
+import { createElement } from 'react'
+import { flushSync } from 'react-dom'
+import { createRoot } from 'react-dom/client'
+import html2canvas from 'html2canvas'
+import { strToU8, zipSync, Zippable } from 'fflate'
+import { ResolvedCard } from '../utils/cardLayout'
+import { CardRenderer } from '../components/CardRenderer'
+
+export type ImageFormat = 'png' | 'svg'
+
+export const IMAGE_DPI_OPTIONS = [96, 150, 300, 600]
+
+// CSS pixels are defined at 96 per inch
+const CSS_DPI = 96
+
+export interface CardImage {
+  card: ResolvedCard
+  name: string  // File name without extension, usually the ticket key
+}
+
+export interface ImageExportOptions {
+  cards: CardImage[]
+  widthMm: number
+  heightMm: number
+  format: ImageFormat
+  dpi: number              // PNG only; SVG is vector and sized in mm
+  zip: boolean             // One archive instead of a file per card
+  zipName: string
+  onProgress?: (done: number, total: number) => void
+}
+
+type ExportTarget =
+  | { kind: 'folder'; path: string }        // Electron, written through IPC
+  | { kind: 'directory'; handle: FileSystemDirectoryHandle }  // File System Access API
+  | { kind: 'download' }
+
+/**
+ * Exports each card as a PNG or SVG image, or a ZIP of all of them.
+ * Cards are rendered offscreen with the same CardRenderer as the print view.
+ * In Electron the files go to a folder chosen by the user; in the browser to
+ * a picked directory where supported, otherwise they are downloaded.
+ * Returns where the images went, or null if the user cancelled.
+ */
+export async function exportCardImages(options: ImageExportOptions): Promise<string | null> {
+  if (options.cards.length === 0) {
+    throw new Error('No cards to export')
+  }
+
+  // Ask first: directory pickers need the click that started the export
+  const target = await chooseTarget(options.zip)
+  if (!target) return null
+
+  const files: { fileName: string; data: Uint8Array }[] = []
+  const fileNames = uniqueFileNames(options.cards.map(c => c.name), options.format)
+  let savedTo = ''
+
+  await withOffscreenCard(async render => {
+    for (let i = 0; i < options.cards.length; i++) {
+      const node = await render(options.cards[i].card, options.widthMm, options.heightMm)
+      const data = options.format === 'png'
+        ? await renderPng(node, options.dpi)
+        : strToU8(renderSvg(node, options.widthMm, options.heightMm))
+
+      if (options.zip) {
+        files.push({ fileName: fileNames[i], data })
+      } else {
+        savedTo = await writeExportFile(target, fileNames[i], data, options.format)
+      }
+      options.onProgress?.(i + 1, options.cards.length)
+    }
+  })
+
+  if (options.zip) {
+    // PNGs are already compressed; storing them keeps zipping fast
+    const entries: Zippable = {}
+    for (const file of files) {
+      entries[file.fileName] = [file.data, { level: options.format === 'png' ? 0 : 6 }]
+    }
+    savedTo = await writeExportFile(target, options.zipName, zipSync(entries), 'zip')
+  }
+
+  return target.kind === 'download' ? savedTo : target.kind === 'folder' ? target.path : target.handle.name
+}
+
+async function chooseTarget(zip: boolean): Promise<ExportTarget | null> {
+  if (window.electronAPI?.chooseExportFolder) {
+    const path = await window.electronAPI.chooseExportFolder()
+    return path ? { kind: 'folder', path } : null
+  }
+
+  // A single ZIP is just downloaded; separate files go to a folder if the browser allows
+  if (!zip && window.showDirectoryPicker) {
+    try {
+      const handle = await window.showDirectoryPicker({ mode: 'readwrite' })
+      return { kind: 'directory', handle }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null
+      throw error
+    }
+  }
+
+  return { kind: 'download' }
+}
+
+const MIME_TYPES: Record<ImageFormat | 'zip', string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  zip: 'application/zip'
+}
+
+async function writeExportFile(target: ExportTarget, fileName: string, data: Uint8Array, type: ImageFormat | 'zip'): Promise<string> {
+  if (target.kind === 'folder') {
+    return window.electronAPI!.writeExportFile({ fileName, data })
+  }
+
+  if (target.kind === 'directory') {
+    const fileHandle = await target.handle.getFileHandle(fileName, { create: true })
+    const writable = await fileHandle.createWritable()
+    await writable.write(data as BlobPart)
+    await writable.close()
+    return fileName
+  }
+
+  const url = URL.createObjectURL(new Blob([data as BlobPart], { type: MIME_TYPES[type] }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  // Browsers drop downloads started too quickly one after another
+  await new Promise(resolve => setTimeout(resolve, 200))
+  URL.revokeObjectURL(url)
+  return fileName
+}
+
+/**
+ * Safe, distinct file names: "PROJ-1.png", and "PROJ-1-2.png" for a repeat
+ */
+function uniqueFileNames(names: string[], extension: string): string[] {
+  const used = new Set<string>()
+  return names.map(name => {
+    const base = name.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^[.]+/, '') || 'card'
+    let fileName = `${base}.${extension}`
+    for (let n = 2; used.has(fileName.toLowerCase()); n++) {
+      fileName = `${base}-${n}.${extension}`
+    }
+    used.add(fileName.toLowerCase())
+    return fileName
+  })
+}
+
+type RenderCard = (card: ResolvedCard, widthMm: number, heightMm: number) => Promise<HTMLElement>
+
+/**
+ * Mounts a hidden CardRenderer and hands out a function that shows one card
+ * in it at a time, resolving once text fitting and images have settled
+ */
+async function withOffscreenCard(run: (render: RenderCard) => Promise<void>): Promise<void> {
+  const host = document.createElement('div')
+  host.style.cssText = 'position: fixed; left: -100000px; top: 0; pointer-events: none'
+  document.body.appendChild(host)
+  const root = createRoot(host)
+
+  try {
+    await run(async (card, widthMm, heightMm) => {
+      flushSync(() => root.render(createElement(CardRenderer, { card, widthMm, heightMm })))
+      await Promise.all(Array.from(host.querySelectorAll('img')).map(img => img.decode().catch(() => undefined)))
+      // FitText refits after its ResizeObserver reports the box size
+      await nextFrame()
+      await nextFrame()
+      return host.firstElementChild as HTMLElement
+    })
+  } finally {
+    root.unmount()
+    host.remove()
+  }
+}
+
+function nextFrame(): Promise<void> {
+  return new Promise(resolve => requestAnimationFrame(() => resolve()))
+}
+
+async function renderPng(node: HTMLElement, dpi: number): Promise<Uint8Array> {
+  const canvas = await html2canvas(node, {
+    scale: dpi / CSS_DPI,
+    backgroundColor: '#ffffff',
+    logging: false
+  })
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+  if (!blob) throw new Error('Could not encode the card as PNG')
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+const round = (n: number) => Math.round(n * 100) / 100
+
+function isTransparent(color: string): boolean {
+  return !color || color === 'transparent' || /rgba\(.*,\s*0\)$/.test(color)
+}
+
+/**
+ * Traces the rendered card into a vector SVG: boxes, borders and images from
+ * their laid-out positions, and text one line at a time where the browser
+ * wrapped it, so the SVG matches the card without re-implementing layout.
+ */
+function renderSvg(node: HTMLElement, widthMm: number, heightMm: number): string {
+  const origin = node.getBoundingClientRect()
+  const defs: string[] = []
+  const range = document.createRange()
+
+  const box = (rect: DOMRect) => ({
+    x: round(rect.left - origin.left),
+    y: round(rect.top - origin.top),
+    width: round(rect.width),
+    height: round(rect.height)
+  })
+
+  const traceText = (text: Text, style: CSSStyleDeclaration): string => {
+    // Words that share a top edge are on the same line
+    const lines: { start: number; end: number; rect: DOMRect }[] = []
+    for (const match of text.data.matchAll(/\S+/g)) {
+      const start = match.index ?? 0
+      range.setStart(text, start)
+      range.setEnd(text, start + match[0].length)
+      const rect = range.getClientRects()[0]
+      if (!rect || rect.width === 0) continue
+      const line = lines[lines.length - 1]
+      if (line && Math.abs(line.rect.top - rect.top) < 1) {
+        line.end = start + match[0].length
+      } else {
+        lines.push({ start, end: start + match[0].length, rect })
+      }
+    }
+
+    const font = `font-family="${escapeXml(style.fontFamily)}" font-size="${style.fontSize}" font-weight="${style.fontWeight}" font-style="${style.fontStyle}"`
+    return lines.map(line => {
+      const { x, y, height } = box(line.rect)
+      return `<text x="${x}" y="${round(y + height / 2)}" dominant-baseline="central" ${font} fill="${style.color}" xml:space="preserve">${escapeXml(text.data.slice(line.start, line.end))}</text>`
+    }).join('')
+  }
+
+  const traceElement = (element: Element): string => {
+    const style = getComputedStyle(element)
+    if (style.display === 'none' || style.visibility === 'hidden') return ''
+
+    const { x, y, width, height } = box(element.getBoundingClientRect())
+    const radius = parseFloat(style.borderTopLeftRadius) || 0
+    let out = ''
+
+    if (!isTransparent(style.backgroundColor)) {
+      out += `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${radius}" fill="${style.backgroundColor}"/>`
+    }
+    const borderWidth = parseFloat(style.borderTopWidth) || 0
+    if (borderWidth > 0 && style.borderTopStyle !== 'none' && !isTransparent(style.borderTopColor)) {
+      const inset = borderWidth / 2
+      out += `<rect x="${round(x + inset)}" y="${round(y + inset)}" width="${round(width - borderWidth)}" height="${round(height - borderWidth)}" rx="${Math.max(0, radius - inset)}" fill="none" stroke="${style.borderTopColor}" stroke-width="${borderWidth}"/>`
+    }
+
+    if (element instanceof HTMLImageElement) {
+      const fit = style.objectFit === 'cover' ? 'xMidYMid slice' : style.objectFit === 'fill' ? 'none' : 'xMidYMid meet'
+      out += `<image x="${x}" y="${y}" width="${width}" height="${height}" preserveAspectRatio="${fit}" xlink:href="${escapeXml(element.src)}"/>`
+    }
+
+    let content = ''
+    for (const child of Array.from(element.childNodes)) {
+      if (child instanceof Text) content += traceText(child, style)
+      else if (child instanceof Element) content += traceElement(child)
+    }
+
+    // Fields clip long text, so the SVG has to as well
+    if (content && style.overflow !== 'visible') {
+      const id = `clip${defs.length}`
+      defs.push(`<clipPath id="${id}"><rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${radius}"/></clipPath>`)
+      content = `<g clip-path="url(#${id})">${content}</g>`
+    }
+    out += content
+
+    const opacity = parseFloat(style.opacity)
+    return opacity < 1 ? `<g opacity="${opacity}">${out}</g>` : out
+  }
+
+  const body = traceElement(node)
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${widthMm}mm" height="${heightMm}mm" viewBox="0 0 ${round(origin.width)} ${round(origin.height)}">`,
+    `<defs>${defs.join('')}</defs>`,
+    body,
+    '</svg>'
+  ].join('\n')
+}
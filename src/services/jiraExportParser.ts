@@ -0,0 +1,165 @@
+import { ParseResult } from './excelParser'
+import { JiraIssue, JiraSearchResponse, issuesToParseResult } from './jiraImporter'
+
+export type ImportFileFormat = 'workbook' | 'jira-xml' | 'jira-json'
+
+const SNIFF_BYTES = 512
+
+/**
+ * Decides how to read a dropped file: by extension first, then by peeking
+ * at its first bytes for files with an unknown or missing extension.
+ */
+export async function detectFileFormat(file: File): Promise<ImportFileFormat> {
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  if (extension === 'xml' || extension === 'rss') return 'jira-xml'
+  if (extension === 'json') return 'jira-json'
+  if (['xlsx', 'xls', 'xlsm', 'csv'].includes(extension || '')) return 'workbook'
+
+  const head = (await file.slice(0, SNIFF_BYTES).text()).replace(/^﻿/, '').trimStart()
+  if (head.startsWith('<')) return 'jira-xml'
+  if (head.startsWith('{') || head.startsWith('[')) return 'jira-json'
+  return 'workbook'
+}
+
+export async function parseJiraExportFile(file: File, format: 'jira-xml' | 'jira-json'): Promise<ParseResult> {
+  const text = await file.text()
+  return format === 'jira-xml' ? parseJiraXml(text) : parseJiraJson(text)
+}
+
+/**
+ * Parses a REST search response ({ issues, names, schema }), a bare array of
+ * issues, or a single issue, as saved from /rest/api/2/search or /issue/KEY.
+ */
+export function parseJiraJson(text: string): ParseResult {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  const response = data as Partial<JiraSearchResponse>
+  const issues: JiraIssue[] = Array.isArray(data) ? data
+    : Array.isArray(response.issues) ? response.issues
+    : data?.key && data?.fields ? [data]
+    : []
+
+  if (issues.length === 0 || !issues.every(issue => issue?.key && issue.fields)) {
+    throw new Error('No Jira issues found in JSON file')
+  }
+
+  return issuesToParseResult(issues, response.names, response.schema)
+}
+
+/**
+ * Parses Jira's "Export XML" (RSS) issue list.
+ * Each <item> is converted to the REST issue shape so both exports share
+ * one flattening path and produce the same columns.
+ */
+export function parseJiraXml(text: string): ParseResult {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.querySelector('parsererror')) {
+    throw new Error('File is not valid XML')
+  }
+
+  const items = Array.from(doc.querySelectorAll('channel > item'))
+  if (items.length === 0) {
+    throw new Error('No Jira issues found in XML file')
+  }
+
+  const names: Record<string, string> = {}
+  const schema: NonNullable<JiraSearchResponse['schema']> = {}
+  const issues = items.map(item => xmlItemToIssue(item, names, schema))
+
+  return issuesToParseResult(issues, names, schema)
+}
+
+function childText(item: Element, tag: string): string {
+  return Array.from(item.children).find(child => child.tagName === tag)?.textContent?.trim() || ''
+}
+
+function childTexts(parent: Element, tag: string): string[] {
+  return Array.from(parent.children)
+    .filter(child => child.tagName === tag)
+    .map(child => child.textContent?.trim() || '')
+    .filter(Boolean)
+}
+
+// RSS dates ("Mon, 1 Jan 2024 10:00:00 +0000") become ISO like the REST API's
+function toIsoDate(value: string): string {
+  if (!value) return ''
+  const time = Date.parse(value)
+  return isNaN(time) ? value : new Date(time).toISOString()
+}
+
+// Descriptions are exported as escaped HTML
+function htmlToText(html: string): string {
+  if (!html) return ''
+  const doc = new DOMParser().parseFromString(html.replace(/<br\s*\/?>/gi, '\n'), 'text/html')
+  return (doc.body.textContent || '').trim()
+}
+
+function xmlItemToIssue(
+  item: Element,
+  names: Record<string, string>,
+  schema: NonNullable<JiraSearchResponse['schema']>
+): JiraIssue {
+  const named = (value: string) => value ? { name: value } : null
+  const fields: Record<string, unknown> = {
+    summary: childText(item, 'summary'),
+    issuetype: named(childText(item, 'type')),
+    status: named(childText(item, 'status')),
+    priority: named(childText(item, 'priority')),
+    resolution: named(childText(item, 'resolution')),
+    assignee: named(childText(item, 'assignee')),
+    reporter: named(childText(item, 'reporter')),
+    project: named(childText(item, 'project')),
+    labels: Array.from(item.querySelectorAll(':scope > labels > label')).map(label => label.textContent?.trim()),
+    components: childTexts(item, 'component').map(named),
+    versions: childTexts(item, 'version').map(named),
+    fixVersions: childTexts(item, 'fixVersion').map(named),
+    created: toIsoDate(childText(item, 'created')),
+    updated: toIsoDate(childText(item, 'updated')),
+    resolutiondate: toIsoDate(childText(item, 'resolved')),
+    duedate: toIsoDate(childText(item, 'due')),
+    description: htmlToText(childText(item, 'description')),
+    environment: htmlToText(childText(item, 'environment')),
+    parent: childText(item, 'parent') ? { key: childText(item, 'parent') } : null,
+    subtasks: Array.from(item.querySelectorAll(':scope > subtasks > subtask'))
+      .map(subtask => ({ key: subtask.textContent?.trim() })),
+    issuelinks: xmlIssueLinks(item)
+  }
+
+  for (const customField of Array.from(item.querySelectorAll(':scope > customfields > customfield'))) {
+    const id = customField.getAttribute('id')
+    const name = childText(customField, 'customfieldname')
+    if (!id || !name) continue
+
+    const values = Array.from(customField.querySelectorAll('customfieldvalues > customfieldvalue'))
+      .map(value => value.textContent?.trim() || '')
+      .filter(Boolean)
+    names[id] = name
+    schema[id] = { custom: customField.getAttribute('key') || undefined }
+    fields[id] = values.length > 1 ? values : values[0] ?? null
+  }
+
+  return { key: childText(item, 'key'), fields }
+}
+
+function xmlIssueLinks(item: Element): unknown[] {
+  const links: unknown[] = []
+  for (const linkType of Array.from(item.querySelectorAll(':scope > issuelinks > issuelinktype'))) {
+    for (const direction of ['outward', 'inward'] as const) {
+      for (const group of Array.from(linkType.querySelectorAll(`:scope > ${direction}links`))) {
+        const description = group.getAttribute('description') || childText(linkType, 'name')
+        for (const issueKey of Array.from(group.querySelectorAll('issuelink > issuekey'))) {
+          links.push({
+            type: { [direction]: description },
+            [`${direction}Issue`]: { key: issueKey.textContent?.trim() }
+          })
+        }
+      }
+    }
+  }
+  return links
+}
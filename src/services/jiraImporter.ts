@@ -0,0 +1,351 @@
+import { JiraConnection, JiraHttpRequest, JiraHttpResponse, JiraQuery, TicketRow } from '../types'
+import { ParseResult } from './excelParser'
+
+export interface JiraImportOptions {
+  connection: JiraConnection
+  query: JiraQuery
+  maxIssues?: number
+  onProgress?: (loaded: number, total: number) => void
+}
+
+export interface JiraIssue {
+  key: string
+  fields: Record<string, unknown>
+}
+
+export interface JiraSearchResponse {
+  startAt: number
+  maxResults: number
+  total: number
+  issues: JiraIssue[]
+  names?: Record<string, string>
+  schema?: Record<string, { type?: string; custom?: string }>
+}
+
+// Body of a failed request
+interface JiraErrorBody {
+  errorMessages?: string[]
+  errors?: Record<string, string>
+}
+
+interface JiraIssueLink {
+  type?: { inward?: string; outward?: string }
+  inwardIssue?: { key: string }
+  outwardIssue?: { key: string }
+}
+
+// The parts of user, option, status and issue objects shown on a card
+interface JiraFieldObject {
+  value?: unknown
+  child?: { value?: unknown }
+  displayName?: string
+  name?: string
+  key?: string
+}
+
+const PAGE_SIZE = 100
+const DEFAULT_MAX_ISSUES = 5000
+
+const SPRINT_SCHEMA = 'com.pyxis.greenhopper.jira:gh-sprint'
+const STORY_POINT_NAMES = ['story points', 'story point estimate']
+
+// Bulky or internal fields that make no sense on a printed card
+const SKIPPED_FIELDS = new Set([
+  'comment', 'worklog', 'attachment', 'watches', 'votes', 'lastViewed',
+  'progress', 'aggregateprogress', 'timetracking', 'thumbnail', 'statuscategorychangedate'
+])
+
+// Column names for system fields when a response carries no `names` map
+const STANDARD_FIELD_NAMES: Record<string, string> = {
+  summary: 'Summary',
+  issuetype: 'Issue Type',
+  status: 'Status',
+  priority: 'Priority',
+  resolution: 'Resolution',
+  assignee: 'Assignee',
+  reporter: 'Reporter',
+  creator: 'Creator',
+  project: 'Project',
+  labels: 'Labels',
+  components: 'Components',
+  versions: 'Affects Version/s',
+  fixVersions: 'Fix Version/s',
+  created: 'Created',
+  updated: 'Updated',
+  resolutiondate: 'Resolved',
+  duedate: 'Due Date',
+  description: 'Description',
+  environment: 'Environment',
+  parent: 'Parent'
+}
+
+// Standard fields first, in the order Jira's own CSV export uses
+const PREFERRED_ORDER = [
+  'Key', 'Summary', 'Issue Type', 'Status', 'Priority', 'Assignee', 'Reporter',
+  'Sprint', 'Story Points', 'Epic Link', 'Parent', 'Sub-tasks', 'Issue Links',
+  'Labels', 'Components', 'Fix Version/s', 'Created', 'Updated', 'Due Date', 'Description'
+]
+
+/**
+ * Imports issues from Jira's REST API as ticket rows.
+ * Pages through /rest/api/2/search and flattens each issue into a flat row
+ * with one column per field, named as in the Jira UI.
+ */
+export async function importFromJira(options: JiraImportOptions): Promise<ParseResult> {
+  const { connection, onProgress } = options
+  const maxIssues = options.maxIssues ?? DEFAULT_MAX_ISSUES
+  const jql = await resolveJql(connection, options.query)
+
+  const issues: JiraIssue[] = []
+  const names: Record<string, string> = {}
+  const schema: NonNullable<JiraSearchResponse['schema']> = {}
+  let total = 0
+
+  do {
+    const page = await jiraRequest<JiraSearchResponse>(connection, 'POST', '/rest/api/2/search', {
+      jql,
+      startAt: issues.length,
+      maxResults: Math.min(PAGE_SIZE, maxIssues - issues.length),
+      fields: ['*navigable'],
+      expand: ['names', 'schema']
+    })
+
+    Object.assign(names, page.names)
+    Object.assign(schema, page.schema)
+    issues.push(...page.issues)
+    total = page.total
+    onProgress?.(issues.length, Math.min(total, maxIssues))
+
+    if (page.issues.length === 0) break
+  } while (issues.length < total && issues.length < maxIssues)
+
+  return issuesToParseResult(issues, names, schema)
+}
+
+/**
+ * Flattens REST issues into rows and columns. Also used for Jira file exports.
+ */
+export function issuesToParseResult(
+  issues: JiraIssue[],
+  names: Record<string, string> = {},
+  schema: JiraSearchResponse['schema'] = {}
+): ParseResult {
+  const flattened = issues.map(issue => flattenIssue(issue, names, schema))
+  const columns = collectColumns(flattened)
+
+  // Give every row every column, like the spreadsheet parser's defval
+  const rows = flattened.map(row => {
+    const complete: TicketRow = {}
+    for (const column of columns) complete[column] = row[column] ?? ''
+    return complete
+  })
+
+  return { rows, columns }
+}
+
+/**
+ * Turns a sprint or board ID into JQL; JQL queries pass through unchanged
+ */
+async function resolveJql(connection: JiraConnection, query: JiraQuery): Promise<string> {
+  const value = query.value.trim()
+  if (!value) {
+    throw new Error(query.mode === 'jql' ? 'Enter a JQL query' : `Enter a ${query.mode} ID`)
+  }
+
+  if (query.mode === 'jql') return value
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${query.mode === 'sprint' ? 'Sprint' : 'Board'} ID must be a number`)
+  }
+
+  if (query.mode === 'sprint') {
+    return `sprint = ${value} ORDER BY Rank ASC`
+  }
+
+  // Boards are backed by a saved filter; reuse it so the import matches the board
+  const config = await jiraRequest<{ filter?: { id: string } }>(
+    connection, 'GET', `/rest/agile/1.0/board/${value}/configuration`
+  )
+  if (!config.filter?.id) {
+    throw new Error(`Board ${value} has no filter`)
+  }
+  return `filter = ${config.filter.id} ORDER BY Rank ASC`
+}
+
+function buildAuthHeader(connection: JiraConnection): string {
+  if (connection.authType === 'bearer') {
+    return `Bearer ${connection.token}`
+  }
+  const credentials = `${connection.username || ''}:${connection.token}`
+  return `Basic ${btoa(unescape(encodeURIComponent(credentials)))}`
+}
+
+/**
+ * Sends a request to Jira. In Electron it goes through the main process so
+ * Jira's missing CORS headers don't matter; the browser build calls fetch
+ * directly (works with a local mock server or a CORS-enabled instance).
+ */
+async function jiraRequest<T>(
+  connection: JiraConnection,
+  method: JiraHttpRequest['method'],
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const baseUrl = connection.baseUrl.trim().replace(/\/+$/, '')
+  const request: JiraHttpRequest = {
+    baseUrl,
+    url: `${baseUrl}${path}`,
+    method,
+    headers: {
+      'Accept': 'application/json',
+      'Authorization': buildAuthHeader(connection),
+      ...(body !== undefined && { 'Content-Type': 'application/json' })
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  }
+
+  let response: JiraHttpResponse
+  try {
+    response = window.electronAPI?.jiraRequest
+      ? await window.electronAPI.jiraRequest(request)
+      : await sendWithFetch(request)
+  } catch (error) {
+    throw new Error(`Cannot reach Jira at ${connection.baseUrl}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`Jira rejected the credentials (${response.status}). Check the username and token.`)
+  }
+
+  let data: unknown
+  try {
+    data = response.body ? JSON.parse(response.body) : {}
+  } catch {
+    throw new Error(`Unexpected response from Jira (${response.status} ${response.statusText})`)
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    const error: JiraErrorBody = typeof data === 'object' && data !== null ? data : {}
+    const messages = [...(error.errorMessages || []), ...Object.values(error.errors || {})]
+    throw new Error(`Jira error ${response.status}: ${messages.join('; ') || response.statusText}`)
+  }
+
+  return data as T
+}
+
+async function sendWithFetch(request: JiraHttpRequest): Promise<JiraHttpResponse> {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body
+  })
+  return { status: response.status, statusText: response.statusText, body: await response.text() }
+}
+
+/**
+ * Flattens one issue into a row keyed by field display name
+ */
+function flattenIssue(
+  issue: JiraIssue,
+  names: Record<string, string>,
+  schema: JiraSearchResponse['schema']
+): TicketRow {
+  const row: TicketRow = { Key: issue.key }
+
+  for (const [fieldId, raw] of Object.entries(issue.fields)) {
+    if (SKIPPED_FIELDS.has(fieldId) || raw === null || raw === undefined) continue
+
+    const name = names[fieldId] || STANDARD_FIELD_NAMES[fieldId] || fieldId
+    let column = name
+    let value: string | number
+
+    if (fieldId === 'issuelinks') {
+      column = 'Issue Links'
+      value = formatIssueLinks(raw as JiraIssueLink[])
+    } else if (fieldId === 'subtasks') {
+      column = 'Sub-tasks'
+      value = (raw as { key: string }[]).map(subtask => subtask.key).join(', ')
+    } else if (schema?.[fieldId]?.custom === SPRINT_SCHEMA || name === 'Sprint') {
+      column = 'Sprint'
+      value = formatSprints(raw)
+    } else if (STORY_POINT_NAMES.includes(name.toLowerCase())) {
+      column = 'Story Points'
+      value = raw === '' ? '' : Number.isFinite(Number(raw)) ? Number(raw) : ''
+    } else {
+      value = formatFieldValue(raw)
+    }
+
+    // Company-managed and team-managed projects can both define story points
+    if (value === '' || (row[column] !== undefined && row[column] !== '')) continue
+    row[column] = value
+  }
+
+  return row
+}
+
+function formatFieldValue(value: unknown): string | number {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'string' || typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+
+  if (Array.isArray(value)) {
+    return value.map(formatFieldValue).filter(v => v !== '').join(', ')
+  }
+
+  if (typeof value === 'object') {
+    const obj = value as JiraFieldObject
+    // Cascading select: "Parent / Child"
+    if (obj.value !== undefined && obj.child?.value !== undefined) return `${obj.value} / ${obj.child.value}`
+    if (obj.displayName !== undefined) return obj.displayName  // users
+    if (obj.value !== undefined) return formatFieldValue(obj.value)  // select options
+    if (obj.name !== undefined) return obj.name  // status, priority, components, versions
+    if (obj.key !== undefined) return obj.key  // parent issue
+  }
+
+  return ''
+}
+
+function formatIssueLinks(links: JiraIssueLink[]): string {
+  return links
+    .map(link => link.outwardIssue
+      ? `${link.type?.outward || 'relates to'} ${link.outwardIssue.key}`
+      : link.inwardIssue
+        ? `${link.type?.inward || 'relates to'} ${link.inwardIssue.key}`
+        : '')
+    .filter(Boolean)
+    .join('; ')
+}
+
+/**
+ * Sprint values are objects on Jira Cloud but serialized strings
+ * ("com.atlassian.greenhopper.service.sprint.Sprint@1a2b[id=1,name=Sprint 1,...]")
+ * on older Server/Data Center versions.
+ */
+function formatSprints(value: unknown): string {
+  const sprints = Array.isArray(value) ? value : [value]
+  return sprints
+    .map(sprint => {
+      if (typeof sprint === 'string') return sprint.match(/name=([^,\]]*)/)?.[1] || sprint
+      return (sprint as { name?: string })?.name || ''
+    })
+    .filter(Boolean)
+    .join(', ')
+}
+
+/**
+ * Columns that have a value on at least one issue, standard fields first
+ */
+function collectColumns(rows: TicketRow[]): string[] {
+  const seen = new Set<string>()
+  for (const row of rows) {
+    for (const [column, value] of Object.entries(row)) {
+      if (value !== '' && value !== null && value !== undefined) seen.add(column)
+    }
+  }
+
+  const preferred = PREFERRED_ORDER.filter(column => seen.has(column))
+  const rest = Array.from(seen)
+    .filter(column => !PREFERRED_ORDER.includes(column))
+    .sort((a, b) => a.localeCompare(b))
+  return [...preferred, ...rest]
+}
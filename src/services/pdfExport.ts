@@ -0,0 +1,162 @@
+import { jsPDF } from 'jspdf'
+import html2canvas from 'html2canvas'
+
+export interface PdfExportOptions {
+  pages: HTMLElement[]     // One element per printed page (card or imposition sheet)
+  pageWidthMm: number
+  pageHeightMm: number
+  pageRange?: string       // e.g. "1-3, 5"; empty means all pages
+  fileName: string
+}
+
+const RASTER_SCALE = 3  // ~288 DPI, sharp enough for printed text
+
+const PRINT_OVERRIDES = `
+  .print-show { display: block !important; }
+  .print-card, .print-sheet { border: none !important; box-shadow: none !important; }
+`
+
+/**
+ * Parses a page range like "1-3, 5, 8-" into zero-based page indexes.
+ * Out-of-range pages are ignored; an empty range selects every page.
+ */
+export function parsePageRange(range: string | undefined, totalPages: number): number[] {
+  if (!range || !range.trim()) {
+    return Array.from({ length: totalPages }, (_, i) => i)
+  }
+
+  const pages = new Set<number>()
+  for (const part of range.split(',')) {
+    const trimmed = part.trim()
+    if (!trimmed) continue
+
+    const match = trimmed.match(/^(\d*)\s*-\s*(\d*)$/)
+    if (match) {
+      const start = match[1] ? parseInt(match[1], 10) : 1
+      const end = match[2] ? parseInt(match[2], 10) : totalPages
+      for (let page = start; page <= end; page++) {
+        if (page >= 1 && page <= totalPages) pages.add(page - 1)
+      }
+    } else if (/^\d+$/.test(trimmed)) {
+      const page = parseInt(trimmed, 10)
+      if (page >= 1 && page <= totalPages) pages.add(page - 1)
+    } else {
+      throw new Error(`Invalid page range: "${trimmed}"`)
+    }
+  }
+
+  return Array.from(pages).sort((a, b) => a - b)
+}
+
+/**
+ * Formats zero-based page indexes as explicit ranges ("1-3,5") for Chromium
+ */
+function formatPageRanges(pageIndexes: number[]): string {
+  const ranges: string[] = []
+  let start = pageIndexes[0]
+  let prev = start
+  for (const index of [...pageIndexes.slice(1), -1]) {
+    if (index === prev + 1) {
+      prev = index
+      continue
+    }
+    ranges.push(start === prev ? `${start + 1}` : `${start + 1}-${prev + 1}`)
+    start = prev = index
+  }
+  return ranges.join(',')
+}
+
+/**
+ * Exports the print view as a PDF file.
+ * In Electron the main process renders the document with printToPDF (vector
+ * output, honours the @page size); in the browser each page is rasterised
+ * and assembled client-side.
+ * Returns the saved path/file name, or null if the user cancelled.
+ */
+export async function exportToPdf(options: PdfExportOptions): Promise<string | null> {
+  // Validate the range up front so both paths report the same error
+  const pageIndexes = parsePageRange(options.pageRange, options.pages.length)
+  if (pageIndexes.length === 0) {
+    throw new Error('No pages selected')
+  }
+
+  if (window.electronAPI?.exportPDF) {
+    return window.electronAPI.exportPDF({
+      defaultFileName: options.fileName,
+      pageRanges: options.pageRange?.trim() ? formatPageRanges(pageIndexes) : undefined
+    })
+  }
+
+  return exportToPdfInBrowser(options, pageIndexes)
+}
+
+async function exportToPdfInBrowser(options: PdfExportOptions, pageIndexes: number[]): Promise<string | null> {
+  // Ask first: the save picker needs the click that started the export
+  const target = await chooseSaveTarget(options.fileName)
+  if (!target) return null
+
+  const { pageWidthMm, pageHeightMm } = options
+  const orientation = pageWidthMm > pageHeightMm ? 'landscape' : 'portrait'
+  const pdf = new jsPDF({ orientation, unit: 'mm', format: [pageWidthMm, pageHeightMm] })
+
+  for (let i = 0; i < pageIndexes.length; i++) {
+    const page = options.pages[pageIndexes[i]]
+    const canvas = await html2canvas(page, {
+      scale: RASTER_SCALE,
+      backgroundColor: '#ffffff',
+      // Screen-only overlays (counters, safe zone) must not end up in the PDF
+      ignoreElements: (element) => element.classList.contains('no-print'),
+      // html2canvas renders screen styles; apply the print-only tweaks by hand
+      onclone: (doc) => {
+        const style = doc.createElement('style')
+        style.textContent = PRINT_OVERRIDES
+        doc.head.appendChild(style)
+      }
+    })
+
+    if (i > 0) pdf.addPage([pageWidthMm, pageHeightMm], orientation)
+    pdf.addImage(canvas.toDataURL('image/jpeg', 0.92), 'JPEG', 0, 0, pageWidthMm, pageHeightMm)
+  }
+
+  const blob = pdf.output('blob')
+  return saveBlob(target, blob, options.fileName)
+}
+
+type SaveTarget = { kind: 'file'; handle: FileSystemFileHandle } | { kind: 'download' }
+
+/**
+ * Asks where to save, falling back to a plain download in browsers without
+ * the File System Access API. Returns null if the user cancelled.
+ */
+async function chooseSaveTarget(fileName: string): Promise<SaveTarget | null> {
+  if (!window.showSaveFilePicker) return { kind: 'download' }
+
+  try {
+    const handle = await window.showSaveFilePicker({
+      suggestedName: fileName,
+      types: [{ description: 'PDF document', accept: { 'application/pdf': ['.pdf'] } }]
+    })
+    return { kind: 'file', handle }
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null
+    throw error
+  }
+}
+
+async function saveBlob(target: SaveTarget, blob: Blob, fileName: string): Promise<string> {
+  if (target.kind === 'file') {
+    const writable = await target.handle.createWritable()
+    await writable.write(blob)
+    await writable.close()
+    return target.handle.name
+  }
+
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  // Revoking right away can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+  return fileName
+}
@@ -0,0 +1,184 @@
+import { ProjectData, SortedCardResult, TicketRow } from '../types'
+import { serializeSortConfig, deserializeSortConfig } from '../stores/templateStore'
+import { migrateCardBackgroundRule, migrateFieldStyle } from '../utils/ruleEvaluator'
+
+export const PROJECT_FILE_EXTENSION = 'ticketcards'
+const PROJECT_FORMAT = 'ticketcards'
+const PROJECT_VERSION = 2
+
+// AI results point at their row instead of repeating it; rows edited since
+// sorting no longer match and are stored inline
+type SerializedSortedResult = Omit<SortedCardResult, 'row'> & { rowIndex?: number; row?: TicketRow }
+
+interface ProjectFile extends Omit<ProjectData, 'sortConfig' | 'aiSortedResults'> {
+  format: typeof PROJECT_FORMAT
+  version: number
+  savedAt: number
+  sortConfig: unknown
+  aiSortedResults: SerializedSortedResult[] | null
+}
+
+/**
+ * Where the current project lives: a path in Electron, a file handle in
+ * browsers with the File System Access API, or nothing after a download.
+ */
+export interface ProjectFileTarget {
+  name: string
+  filePath?: string
+  handle?: FileSystemFileHandle
+}
+
+export function serializeProject(data: ProjectData): string {
+  const rowIndexes = new Map(data.rows.map((row, i) => [row, i]))
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: Date.now(),
+    ...data,
+    sortConfig: serializeSortConfig(data.sortConfig),
+    aiSortedResults: data.aiSortedResults?.map(({ row, ...result }) => {
+      const rowIndex = rowIndexes.get(row)
+      return rowIndex !== undefined ? { ...result, rowIndex } : { ...result, row }
+    }) ?? null
+  }
+  return JSON.stringify(file)
+}
+
+/**
+ * Reads a project file, upgrading files written by older versions.
+ * Throws for other JSON files and for files from a newer version.
+ */
+export function parseProject(text: string): ProjectData {
+  let file: ProjectFile
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new Error('Project file is not valid JSON')
+  }
+
+  if (file?.format !== PROJECT_FORMAT || typeof file.version !== 'number') {
+    throw new Error('Not a ticket cards project file')
+  }
+  if (file.version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of the app (format v${file.version})`)
+  }
+  if (!Array.isArray(file.rows) || !Array.isArray(file.columns)) {
+    throw new Error('Project file has no ticket data')
+  }
+
+  const { format: _format, version: _version, savedAt: _savedAt, ...data } = migrateProject(file)
+  return {
+    ...data,
+    sortConfig: deserializeSortConfig(data.sortConfig) ?? { rules: [] },
+    aiSortedResults: data.aiSortedResults?.map(({ rowIndex, row, ...result }) => ({
+      ...result,
+      row: row ?? data.rows[rowIndex ?? result.originalIndex]
+    })).filter(result => result.row) ?? null
+  }
+}
+
+// Each format version bump adds a step here
+function migrateProject(file: ProjectFile): ProjectFile {
+  if (file.version < 2) {
+    // v2: colour and background rules hold AND/OR condition groups
+    file = {
+      ...file,
+      fieldStyles: (file.fieldStyles ?? []).map(migrateFieldStyle),
+      cardBackgroundRules: (file.cardBackgroundRules ?? []).map(migrateCardBackgroundRule)
+    }
+  }
+
+  return {
+    ...file,
+    columnSchema: file.columnSchema ?? {},
+    backFieldLayouts: file.backFieldLayouts ?? [],
+    cardBackgroundRules: file.cardBackgroundRules ?? [],
+    layoutVariants: file.layoutVariants ?? [],
+    enrichmentGroup: file.enrichmentGroup ?? null,
+    aiSortedResults: file.aiSortedResults ?? null,
+    selectedCardKeys: file.selectedCardKeys ?? []
+  }
+}
+
+/**
+ * Writes the project to its current target, or asks where to save it when
+ * there is none (Save As). Returns the new target, or null if cancelled.
+ */
+export async function saveProjectFile(
+  content: string,
+  target: ProjectFileTarget | null,
+  defaultFileName: string
+): Promise<ProjectFileTarget | null> {
+  if (window.electronAPI?.saveProject) {
+    const filePath = await window.electronAPI.saveProject({ filePath: target?.filePath, defaultFileName, content })
+    return filePath ? { name: fileNameOf(filePath), filePath } : null
+  }
+
+  let handle = target?.handle
+  if (!handle && window.showSaveFilePicker) {
+    try {
+      handle = await window.showSaveFilePicker({
+        suggestedName: defaultFileName,
+        types: [{ description: 'Ticket cards project', accept: { 'application/json': [`.${PROJECT_FILE_EXTENSION}`] } }]
+      })
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null
+      throw error
+    }
+  }
+
+  if (handle) {
+    const writable = await handle.createWritable()
+    await writable.write(content)
+    await writable.close()
+    return { name: handle.name, handle }
+  }
+
+  // No file system access: download a copy every time
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = defaultFileName
+  a.click()
+  // Revoking right away can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+  return null
+}
+
+export async function openProjectFile(): Promise<{ content: string; target: ProjectFileTarget } | null> {
+  if (window.electronAPI?.openProject) {
+    const result = await window.electronAPI.openProject()
+    return result ? { content: result.content, target: { name: fileNameOf(result.filePath), filePath: result.filePath } } : null
+  }
+
+  if (window.showOpenFilePicker) {
+    try {
+      const [handle] = await window.showOpenFilePicker({
+        types: [{ description: 'Ticket cards project', accept: { 'application/json': [`.${PROJECT_FILE_EXTENSION}`] } }]
+      })
+      const file = await handle.getFile()
+      return { content: await file.text(), target: { name: handle.name, handle } }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null
+      throw error
+    }
+  }
+
+  const file = await pickFile(`.${PROJECT_FILE_EXTENSION},.json`)
+  return file ? { content: await file.text(), target: { name: file.name } } : null
+}
+
+function pickFile(accept: string): Promise<File | null> {
+  return new Promise(resolve => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = accept
+    input.onchange = () => resolve(input.files?.[0] ?? null)
+    input.addEventListener('cancel', () => resolve(null))
+    input.click()
+  })
+}
+
+function fileNameOf(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath
+}
@@ -1,16 +1,37 @@
 import { create } from 'zustand'
-import { TicketRow, FieldMapping, FieldLayout, FieldStyle, EnrichmentGroup, CardBackgroundRule, SortConfig, SortedCardResult } from '../types'
+import { TicketRow, FieldMapping, FieldLayout, FieldStyle, EnrichmentGroup, CardBackgroundRule, SortConfig, SortedCardResult, PrintSettings, CardSize, ColumnSchema, ColumnType, ImportChangeReport, ImportSnapshot, ProjectData, LayoutDesign, LayoutVariant, ConditionGroup } from '../types'
+import { DEFAULT_IMPOSITION } from '../utils/imposition'
+import { DEFAULT_CARD_SIZE } from '../utils/cardSizes'
+import { formatCellValue } from '../utils/cellValues'
+import { inferColumnSchema } from '../utils/columnTypes'
+import { findKeyColumn } from '../utils/ticketKeys'
+import { createLayoutVariant } from '../utils/layoutVariants'
+import { clearImportSnapshot, createImportSnapshot, diffImports, loadImportSnapshot, saveImportSnapshot } from '../utils/importDiff'
+import { createHistory } from './historyMiddleware'
 
 interface DataStore {
   // Data
   rows: TicketRow[]
   columns: string[]
-  setData: (rows: TicketRow[], columns: string[]) => void
+  // recordImport: false loads rows without diffing them or moving the import baseline
+  setData: (rows: TicketRow[], columns: string[], options?: { recordImport?: boolean }) => void
   clearData: () => void
+  loadProject: (data: ProjectData) => void
   updateRowField: (rowIndex: number, fieldName: string, value: string) => void
   updateAllRowsField: (fieldName: string, values: Map<number, string>) => void
 
-  // AI-sorted results cache
+  // Detected type of each column; drives sorting, rule matching and formatting
+  columnSchema: ColumnSchema
+  setColumnType: (column: string, type: ColumnType) => void
+
+  // Differences to the previous import (null for a first import or without a key column)
+  importChanges: ImportChangeReport | null
+  dismissImportChanges: () => void
+  // Baseline the next import is compared with. Tracked by history so undoing
+  // an import restores the previous baseline; mirrored to localStorage.
+  importSnapshot: ImportSnapshot | null
+
+  // AI-sorted results cache; changing the tickets, their types or the sort config clears it
   aiSortedResults: SortedCardResult[] | null
   setAISortedResults: (results: SortedCardResult[] | null) => void
 
@@ -19,9 +40,12 @@ interface DataStore {
   setFieldMappings: (mappings: FieldMapping[]) => void
   updateFieldMapping: (columnName: string, updates: Partial<FieldMapping>) => void
 
-  // Layouts
+  // Layouts, styles and background rules below are the default design. While
+  // a variant is being edited, their setters change the variant instead.
   fieldLayouts: FieldLayout[]
   setFieldLayouts: (layouts: FieldLayout[]) => void
+  backFieldLayouts: FieldLayout[]
+  setBackFieldLayouts: (layouts: FieldLayout[]) => void
 
   // Styles
   fieldStyles: FieldStyle[]
@@ -32,6 +56,17 @@ interface DataStore {
   cardBackgroundRules: CardBackgroundRule[]
   setCardBackgroundRules: (rules: CardBackgroundRule[]) => void
 
+  // Layout variants, picked per ticket by their condition
+  layoutVariants: LayoutVariant[]
+  setLayoutVariants: (variants: LayoutVariant[]) => void
+  addLayoutVariant: (name: string, condition: ConditionGroup) => void
+  updateLayoutVariant: (id: string, updates: Partial<Pick<LayoutVariant, 'name' | 'condition'>>) => void
+  removeLayoutVariant: (id: string) => void
+  moveLayoutVariant: (id: string, offset: number) => void
+  // Design open in the designer (null for the default design)
+  editingVariantId: string | null
+  setEditingVariantId: (id: string | null) => void
+
   // Enrichment
   enrichmentGroup: EnrichmentGroup | null
   setEnrichmentGroup: (group: EnrichmentGroup | null) => void
@@ -47,14 +82,94 @@ interface DataStore {
   sortConfig: SortConfig
   setSortConfig: (config: SortConfig) => void
 
+  // Card size - label sheets also switch the imposition to their layout
+  cardSize: CardSize
+  setCardSize: (size: CardSize) => void
+
+  // Print settings (imposition, finishing guides)
+  printSettings: PrintSettings
+  setPrintSettings: (updates: Partial<PrintSettings>) => void
+
+  // Cards picked for a partial reprint, by ticket key (kept across re-imports)
+  selectedCardKeys: string[]
+  setSelectedCardKeys: (keys: string[]) => void
+
   // Get row with enrichment data merged in
   getEnrichedRow: (row: TicketRow) => TicketRow
 }
 
-export const useDataStore = create<DataStore>((set, get) => ({
+// Undo history. Each entry keeps references to the rows that changed, so the
+// budget is counted in row versions rather than entries for large imports.
+const MAX_HISTORY_ENTRIES = 100
+const MAX_HISTORY_ROW_VERSIONS = 50000
+
+const { middleware: history, useHistoryStore } = createHistory<DataStore>({
+  trackedKeys: [
+    'rows', 'columns', 'columnSchema', 'importChanges', 'importSnapshot', 'aiSortedResults', 'fieldMappings', 'fieldLayouts',
+    'backFieldLayouts', 'fieldStyles', 'cardBackgroundRules', 'layoutVariants', 'enrichmentGroup', 'sortConfig',
+    'cardSize', 'printSettings'
+  ],
+  referenceKeys: ['rows', 'importChanges', 'importSnapshot', 'aiSortedResults'],
+  labels: {
+    setData: (rows) => `Import ${rows.length} tickets`,
+    clearData: 'Clear data',
+    loadProject: 'Open project',
+    dismissImportChanges: 'Dismiss import changes',
+    updateRowField: (rowIndex, fieldName) => `Edit ${fieldName} on row ${rowIndex + 1}`,
+    updateAllRowsField: (fieldName, values) => `Update ${fieldName} on ${values.size} rows`,
+    setColumnType: (column, type) => `Treat ${column} as ${type}`,
+    setAISortedResults: (results) => results ? 'AI sort' : 'Clear AI sort',
+    setFieldMappings: 'Change fields',
+    updateFieldMapping: (columnName) => `Edit field ${columnName}`,
+    setFieldLayouts: 'Arrange fields',
+    setBackFieldLayouts: 'Arrange back fields',
+    setFieldStyles: 'Change styles',
+    updateFieldStyle: (fieldId) => `Style ${fieldId}`,
+    setCardBackgroundRules: 'Change card backgrounds',
+    setLayoutVariants: 'Change layout variants',
+    addLayoutVariant: (name) => `Add layout ${name}`,
+    updateLayoutVariant: 'Edit layout variant',
+    removeLayoutVariant: 'Remove layout variant',
+    moveLayoutVariant: 'Reorder layout variants',
+    setEnrichmentGroup: 'Change enrichment',
+    setEnrichmentValue: (groupValue, customField) => `Enrich ${groupValue}: ${customField}`,
+    addCustomField: (groupValue, fieldName) => `Add ${fieldName} to ${groupValue}`,
+    removeCustomField: (groupValue, fieldName) => `Remove ${fieldName} from ${groupValue}`,
+    setSortConfig: 'Change sorting or filter',
+    setCardSize: (size) => `Card size ${size.label}`,
+    setPrintSettings: 'Change print settings'
+  },
+  maxEntries: MAX_HISTORY_ENTRIES,
+  entryCost: (previous, next) => {
+    if (previous.rows === next.rows || !next.rows) return 0
+    return next.rows.filter((row, i) => row !== previous.rows?.[i]).length
+  },
+  maxCost: MAX_HISTORY_ROW_VERSIONS
+})
+
+export { useHistoryStore }
+
+type DesignState = Pick<DataStore, keyof LayoutDesign | 'layoutVariants' | 'editingVariantId'>
+
+/**
+ * The design open in the designer: the variant being edited, or the default
+ */
+export function getEditedDesign(state: DesignState): LayoutDesign {
+  return state.layoutVariants.find(v => v.id === state.editingVariantId) ?? state
+}
+
+// Routes a design change to the variant being edited, if any
+function updateEditedDesign(state: DesignState, updates: Partial<LayoutDesign>): Partial<DataStore> {
+  if (!state.layoutVariants.some(v => v.id === state.editingVariantId)) return updates
+  return {
+    layoutVariants: state.layoutVariants.map(v => v.id === state.editingVariantId ? { ...v, ...updates } : v)
+  }
+}
+
+export const useDataStore = create<DataStore>()(history((set, get) => ({
   rows: [],
   columns: [],
-  setData: (rows, columns) => {
+  setData: (rows, columns, { recordImport = true } = {}) => {
     const mappings: FieldMapping[] = columns.map((col, index) => ({
       columnName: col,
       displayName: col,
@@ -82,13 +197,45 @@ export const useDataStore = create<DataStore>((set, get) => ({
       colorRules: []
     }))
 
-    set({ rows, columns, fieldMappings: mappings, fieldLayouts: layouts, fieldStyles: styles, previewIndex: 0 })
+    const columnSchema = inferColumnSchema(rows, columns)
+
+    // Diff against the previous import, then make this one the baseline for the next
+    let importChanges: ImportChangeReport | null = null
+    let importSnapshot = get().importSnapshot
+    const keyColumn = findKeyColumn(columns, columnSchema)
+    if (keyColumn && recordImport) {
+      const snapshot = createImportSnapshot(rows, columns, keyColumn)
+      if (importSnapshot) importChanges = diffImports(importSnapshot, snapshot)
+      importSnapshot = snapshot
+    }
+
+    set({ rows, columns, columnSchema, importChanges, importSnapshot, aiSortedResults: null, fieldMappings: mappings, fieldLayouts: layouts, backFieldLayouts: [], fieldStyles: styles, layoutVariants: [], editingVariantId: null, previewIndex: 0 })
   },
-  clearData: () => set({ rows: [], columns: [], fieldMappings: [], fieldLayouts: [], fieldStyles: [], previewIndex: 0 }),
+  clearData: () => set({ rows: [], columns: [], columnSchema: {}, importChanges: null, aiSortedResults: null, fieldMappings: [], fieldLayouts: [], backFieldLayouts: [], fieldStyles: [], layoutVariants: [], editingVariantId: null, previewIndex: 0 }),
+  // Unlike setData this restores a saved session as-is, without diffing it as an import
+  loadProject: (data) => set(state => ({
+    ...data,
+    printSettings: { ...state.printSettings, ...data.printSettings },
+    importChanges: null,
+    editingVariantId: null,
+    previewIndex: 0
+  })),
+
+  importChanges: null,
+  dismissImportChanges: () => set({ importChanges: null }),
+  importSnapshot: loadImportSnapshot(),
+
+  columnSchema: {},
+  setColumnType: (column, type) => set(state => ({
+    columnSchema: { ...state.columnSchema, [column]: type },
+    aiSortedResults: null
+  })),
+
   updateRowField: (rowIndex, fieldName, value) => set(state => ({
     rows: state.rows.map((row, i) =>
       i === rowIndex ? { ...row, [fieldName]: value } : row
-    )
+    ),
+    aiSortedResults: null
   })),
   updateAllRowsField: (fieldName, values) => {
     console.log('Store: updateAllRowsField called', { fieldName, valuesSize: values.size })
@@ -101,7 +248,7 @@ export const useDataStore = create<DataStore>((set, get) => ({
         return newValue !== undefined ? { ...row, [fieldName]: newValue } : row
       })
       console.log('Store: New rows created, first row Description:', String(newRows[0]?.[fieldName] || '').substring(0, 50))
-      return { rows: newRows }
+      return { rows: newRows, aiSortedResults: null }
     })
   },
 
@@ -114,18 +261,45 @@ export const useDataStore = create<DataStore>((set, get) => ({
   })),
 
   fieldLayouts: [],
-  setFieldLayouts: (layouts) => set({ fieldLayouts: layouts }),
+  setFieldLayouts: (layouts) => set(state => updateEditedDesign(state, { fieldLayouts: layouts })),
+  backFieldLayouts: [],
+  setBackFieldLayouts: (layouts) => set(state => updateEditedDesign(state, { backFieldLayouts: layouts })),
 
   fieldStyles: [],
-  setFieldStyles: (styles) => set({ fieldStyles: styles }),
-  updateFieldStyle: (fieldId, updates) => set(state => ({
-    fieldStyles: state.fieldStyles.map(s =>
+  setFieldStyles: (styles) => set(state => updateEditedDesign(state, { fieldStyles: styles })),
+  updateFieldStyle: (fieldId, updates) => set(state => updateEditedDesign(state, {
+    fieldStyles: getEditedDesign(state).fieldStyles.map(s =>
       s.fieldId === fieldId ? { ...s, ...updates } : s
     )
   })),
 
   cardBackgroundRules: [],
-  setCardBackgroundRules: (rules) => set({ cardBackgroundRules: rules }),
+  setCardBackgroundRules: (rules) => set(state => updateEditedDesign(state, { cardBackgroundRules: rules })),
+
+  layoutVariants: [],
+  setLayoutVariants: (variants) => set({ layoutVariants: variants, editingVariantId: null }),
+  // A new variant starts as a copy of the design currently open, and opens in the designer
+  addLayoutVariant: (name, condition) => set(state => {
+    const variant = createLayoutVariant(name, getEditedDesign(state), condition)
+    return { layoutVariants: [...state.layoutVariants, variant], editingVariantId: variant.id }
+  }),
+  updateLayoutVariant: (id, updates) => set(state => ({
+    layoutVariants: state.layoutVariants.map(v => v.id === id ? { ...v, ...updates } : v)
+  })),
+  removeLayoutVariant: (id) => set(state => ({
+    layoutVariants: state.layoutVariants.filter(v => v.id !== id),
+    editingVariantId: state.editingVariantId === id ? null : state.editingVariantId
+  })),
+  moveLayoutVariant: (id, offset) => set(state => {
+    const index = state.layoutVariants.findIndex(v => v.id === id)
+    const target = index + offset
+    if (index < 0 || target < 0 || target >= state.layoutVariants.length) return state
+    const variants = [...state.layoutVariants]
+    ;[variants[index], variants[target]] = [variants[target], variants[index]]
+    return { layoutVariants: variants }
+  }),
+  editingVariantId: null,
+  setEditingVariantId: (id) => set({ editingVariantId: id }),
 
   enrichmentGroup: null,
   setEnrichmentGroup: (group) => set({ enrichmentGroup: group }),
@@ -180,7 +354,32 @@ export const useDataStore = create<DataStore>((set, get) => ({
   })),
 
   sortConfig: { rules: [] },
-  setSortConfig: (config) => set({ sortConfig: config }),
+  setSortConfig: (config) => set({ sortConfig: config, aiSortedResults: null }),
+
+  cardSize: DEFAULT_CARD_SIZE,
+  setCardSize: (size) => set(state => ({
+    cardSize: size,
+    // Only label sheets have separate vertical spacing; other sizes drop it
+    printSettings: size.sheet
+      ? { ...state.printSettings, imposition: { ...size.sheet, enabled: true } }
+      : { ...state.printSettings, imposition: { ...state.printSettings.imposition, gutterYMm: undefined, marginYMm: undefined } }
+  })),
+
+  printSettings: {
+    imposition: DEFAULT_IMPOSITION,
+    cutMarks: false,
+    bleedMm: 0,
+    safeZoneMm: 5,
+    showSafeZone: false,
+    duplex: false,
+    duplexFlip: 'long-edge'
+  },
+  setPrintSettings: (updates) => set(state => ({
+    printSettings: { ...state.printSettings, ...updates }
+  })),
+
+  selectedCardKeys: [],
+  setSelectedCardKeys: (keys) => set({ selectedCardKeys: keys }),
 
   aiSortedResults: null,
   setAISortedResults: (results) => set({ aiSortedResults: results }),
@@ -189,12 +388,19 @@ export const useDataStore = create<DataStore>((set, get) => ({
     const { enrichmentGroup } = get()
     if (!enrichmentGroup) return row
 
-    const groupValue = row[enrichmentGroup.groupField]
-    if (!groupValue || !enrichmentGroup.enrichments[String(groupValue)]) return row
+    const groupValue = formatCellValue(row[enrichmentGroup.groupField])
+    if (!groupValue || !enrichmentGroup.enrichments[groupValue]) return row
 
     return {
       ...row,
-      ...enrichmentGroup.enrichments[String(groupValue)]
+      ...enrichmentGroup.enrichments[groupValue]
     }
   }
-}))
+})))
+
+// Keep the stored baseline in step with imports and with undo/redo of them
+useDataStore.subscribe((state, previous) => {
+  if (state.importSnapshot === previous.importSnapshot) return
+  if (state.importSnapshot) saveImportSnapshot(state.importSnapshot)
+  else clearImportSnapshot()
+})
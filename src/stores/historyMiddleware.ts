@@ -0,0 +1,156 @@
+import { create, StateCreator, StoreApi } from 'zustand'
+
+export interface HistoryEntry {
+  label: string
+  timestamp: number
+}
+
+export interface HistoryStore {
+  entries: HistoryEntry[]  // entries[0] is the oldest state still reachable
+  currentIndex: number     // The entry currently shown
+  undo: () => void
+  redo: () => void
+  jumpTo: (index: number) => void
+  // Records the changes made by change() as one entry with this label
+  recordAs: (label: string, change: () => void) => void
+}
+
+type Action<T, K extends keyof T> = T[K] extends (...args: infer A) => unknown ? A : never
+
+export type HistoryLabels<T> = {
+  [K in keyof T]?: string | ((...args: Action<T, K>) => string)
+}
+
+export interface HistoryOptions<T> {
+  trackedKeys: (keyof T)[]
+  labels: HistoryLabels<T>
+  referenceKeys?: (keyof T)[]  // Large values compared by reference instead of content
+  maxEntries: number
+  // Memory bound: entries are dropped oldest-first while the summed cost exceeds maxCost
+  entryCost?: (previous: Partial<T>, next: Partial<T>) => number
+  maxCost?: number
+}
+
+// Repeated edits with the same label (typing in an input) merge into one entry
+const COALESCE_MS = 1000
+
+/**
+ * Undo/redo middleware for a Zustand store. Every state change that touches
+ * a tracked key is recorded as a snapshot of those keys; snapshots share
+ * unchanged values with each other, so only changed parts cost memory.
+ * Entries are labelled by the action that made the change.
+ */
+export function createHistory<T extends object>(options: HistoryOptions<T>) {
+  let storeApi: StoreApi<T> | null = null
+  let baseSetState: StoreApi<T>['setState'] | null = null
+  let snapshots: Partial<T>[] = []
+  let costs: number[] = []
+  let actionLabel: string | null = null
+
+  const takeSnapshot = (state: T): Partial<T> => {
+    const snapshot: Partial<T> = {}
+    for (const key of options.trackedKeys) snapshot[key] = state[key]
+    return snapshot
+  }
+
+  // RegExps (sort rule patterns) would all serialize as {}
+  const serialize = (value: unknown) => JSON.stringify(value, (_key, v) => v instanceof RegExp ? v.toString() : v)
+
+  const hasChanged = (previous: Partial<T>, next: Partial<T>) => options.trackedKeys.some(key =>
+    previous[key] !== next[key] &&
+    (options.referenceKeys?.includes(key) || serialize(previous[key]) !== serialize(next[key]))
+  )
+
+  const record = (label: string) => {
+    if (!storeApi) return
+    const { entries, currentIndex } = useHistoryStore.getState()
+    const next = takeSnapshot(storeApi.getState())
+    if (!hasChanged(snapshots[currentIndex], next)) return
+
+    // A new change discards the redo branch
+    let newEntries = entries.slice(0, currentIndex + 1)
+    snapshots = snapshots.slice(0, currentIndex + 1)
+    costs = costs.slice(0, currentIndex + 1)
+
+    const top = newEntries[newEntries.length - 1]
+    const now = Date.now()
+    if (newEntries.length > 1 && top.label === label && now - top.timestamp < COALESCE_MS) {
+      snapshots[snapshots.length - 1] = next
+      costs[costs.length - 1] = options.entryCost?.(snapshots[snapshots.length - 2], next) ?? 0
+      newEntries[newEntries.length - 1] = { label, timestamp: now }
+    } else {
+      costs.push(options.entryCost?.(snapshots[snapshots.length - 1], next) ?? 0)
+      snapshots.push(next)
+      newEntries.push({ label, timestamp: now })
+    }
+
+    // Forget the oldest states once over budget
+    let totalCost = costs.reduce((sum, cost) => sum + cost, 0)
+    while (newEntries.length > 1 &&
+           (newEntries.length > options.maxEntries || (options.maxCost !== undefined && totalCost > options.maxCost))) {
+      snapshots.shift()
+      totalCost -= costs.shift() ?? 0
+      newEntries = newEntries.slice(1)
+    }
+    costs[0] = 0
+
+    useHistoryStore.setState({ entries: newEntries, currentIndex: newEntries.length - 1 })
+  }
+
+  const jumpTo = (index: number) => {
+    if (!baseSetState || index < 0 || index >= snapshots.length || index === useHistoryStore.getState().currentIndex) return
+    baseSetState(snapshots[index])
+    useHistoryStore.setState({ currentIndex: index })
+  }
+
+  const useHistoryStore = create<HistoryStore>((_set, get) => ({
+    entries: [{ label: 'Start', timestamp: Date.now() }],
+    currentIndex: 0,
+    undo: () => jumpTo(get().currentIndex - 1),
+    redo: () => jumpTo(get().currentIndex + 1),
+    jumpTo,
+    recordAs: (label, change) => {
+      const outerLabel = actionLabel
+      actionLabel = label
+      try {
+        change()
+      } finally {
+        actionLabel = outerLabel
+      }
+    }
+  }))
+
+  const middleware = (config: StateCreator<T, [], []>): StateCreator<T, [], []> => (set, get, api) => {
+    storeApi = api
+    baseSetState = api.setState
+
+    const trackingSet: typeof set = (...args) => {
+      set(...args)
+      record(actionLabel ?? 'Edit')
+    }
+    api.setState = trackingSet
+
+    const state = config(trackingSet, get, api)
+
+    // Wrap labelled actions so changes they make are recorded under their label
+    for (const [name, label] of Object.entries(options.labels) as [keyof T, HistoryLabels<T>[keyof T]][]) {
+      const action = state[name]
+      if (typeof action !== 'function' || !label) continue
+      state[name] = ((...args: unknown[]) => {
+        const outerLabel = actionLabel
+        actionLabel = actionLabel ?? (typeof label === 'function' ? (label as (...a: unknown[]) => string)(...args) : label)
+        try {
+          return action(...args)
+        } finally {
+          actionLabel = outerLabel
+        }
+      }) as T[keyof T]
+    }
+
+    snapshots = [takeSnapshot(state)]
+    costs = [0]
+    return state
+  }
+
+  return { middleware, useHistoryStore }
+}
@@ -1,9 +1,10 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { CardTemplate, SavedEnrichment, FieldMapping, FieldLayout, FieldStyle, EnrichmentGroup, CardBackgroundRule, SortConfig } from '../types'
+import { CardTemplate, SavedEnrichment, FieldMapping, FieldLayout, FieldStyle, EnrichmentGroup, CardBackgroundRule, SortConfig, CardSize, LayoutVariant, PrintSettings } from '../types'
+import { migrateCardBackgroundRule, migrateFieldStyle } from '../utils/ruleEvaluator'
 
 // Helper to serialize RegExp patterns for storage
-function serializeSortConfig(config: SortConfig | undefined): any {
+export function serializeSortConfig(config: SortConfig | undefined): any {
   if (!config) return undefined
 
   return {
@@ -19,7 +20,7 @@ function serializeSortConfig(config: SortConfig | undefined): any {
 }
 
 // Helper to deserialize RegExp patterns from storage
-function deserializeSortConfig(config: any): SortConfig | undefined {
+export function deserializeSortConfig(config: any): SortConfig | undefined {
   if (!config) return undefined
 
   return {
@@ -37,7 +38,7 @@ function deserializeSortConfig(config: any): SortConfig | undefined {
 interface TemplateStore {
   // Templates
   templates: CardTemplate[]
-  saveTemplate: (name: string, mappings: FieldMapping[], layouts: FieldLayout[], styles: FieldStyle[], cardBgRules?: CardBackgroundRule[], sortConfig?: SortConfig) => string
+  saveTemplate: (name: string, mappings: FieldMapping[], layouts: FieldLayout[], styles: FieldStyle[], cardBgRules?: CardBackgroundRule[], sortConfig?: SortConfig, cardSize?: CardSize, backLayouts?: FieldLayout[], layoutVariants?: LayoutVariant[], printSettings?: PrintSettings) => string
   loadTemplate: (id: string) => CardTemplate | null
   deleteTemplate: (id: string) => void
   renameTemplate: (id: string, name: string) => void
@@ -62,7 +63,7 @@ export const useTemplateStore = create<TemplateStore>()(
     (set, get) => ({
       templates: [],
 
-      saveTemplate: (name, mappings, layouts, styles, cardBgRules = [], sortConfig) => {
+      saveTemplate: (name, mappings, layouts, styles, cardBgRules = [], sortConfig, cardSize, backLayouts = [], layoutVariants = [], printSettings) => {
         const id = generateId()
         const template: CardTemplate = {
           id,
@@ -70,9 +71,13 @@ export const useTemplateStore = create<TemplateStore>()(
           createdAt: Date.now(),
           fieldMappings: mappings,
           fieldLayouts: layouts,
+          backFieldLayouts: backLayouts,
           fieldStyles: styles,
           cardBackgroundRules: cardBgRules,
-          sortConfig: serializeSortConfig(sortConfig) as any
+          layoutVariants,
+          sortConfig: serializeSortConfig(sortConfig) as any,
+          cardSize,
+          printSettings
         }
         set(state => ({
           templates: [...state.templates, template]
@@ -84,8 +89,12 @@ export const useTemplateStore = create<TemplateStore>()(
         const template = get().templates.find(t => t.id === id)
         if (!template) return null
 
+        // Templates saved before compound conditions get their rules upgraded here
         return {
           ...template,
+          fieldStyles: template.fieldStyles.map(migrateFieldStyle),
+          cardBackgroundRules: (template.cardBackgroundRules || []).map(migrateCardBackgroundRule),
+          layoutVariants: template.layoutVariants || [],
           sortConfig: deserializeSortConfig(template.sortConfig)
         }
       },
@@ -1,7 +1,20 @@
 export interface TicketRow {
-  [key: string]: string | number | null | undefined
+  [key: string]: string | number | string[] | null | undefined
 }
 
+export type ColumnType =
+  | 'number'
+  | 'date'
+  | 'datetime'
+  | 'enum'       // Few distinct values that repeat (status, priority, ...)
+  | 'list'       // Multi-value cells
+  | 'issueKey'
+  | 'url'
+  | 'longText'
+  | 'text'
+
+export type ColumnSchema = Record<string, ColumnType>
+
 export interface FieldMapping {
   columnName: string
   displayName: string
@@ -9,31 +22,114 @@ export interface FieldMapping {
   columnIndex: number  // Position in the original Excel file
 }
 
+// Design elements that don't come from a column
+export type CardElement =
+  | {
+      type: 'text'
+      text: string  // {{Column}} placeholders are filled from the ticket
+      fontSize: number
+      fontWeight: 'normal' | 'bold'
+      textAlign: 'left' | 'center' | 'right'
+      color: string
+    }
+  | { type: 'image'; src: string; fit: 'contain' | 'cover' }  // src is a data URL
+  | { type: 'line'; orientation: 'horizontal' | 'vertical'; thickness: number; color: string }
+  | { type: 'box'; fillColor: string; borderColor: string; borderWidth: number; borderRadius: number }
+  | {
+      type: 'code'
+      format: CodeFormat
+      baseUrl: string  // e.g. https://jira.example.com/browse/, prefixed to the value
+      value: string    // With {{Column}} placeholders, usually {{Key}}
+      color: string
+    }
+
+export type CodeFormat = 'qrcode' | 'code128'
+
+export type CardElementType = CardElement['type']
+
 export interface FieldLayout {
-  i: string  // field id (column name)
+  i: string  // field id (column name), or a _static_ id for design elements
   x: number
   y: number
   w: number
   h: number
   minW?: number
   minH?: number
+  element?: CardElement  // Set for design elements
+}
+
+export type ConditionOperator =
+  | 'equals' | 'notEquals' | 'contains' | 'startsWith' | 'regex'
+  | 'greaterThan' | 'lessThan' | 'between' | 'inList'
+  | 'before' | 'after' | 'withinDays'
+  | 'notEmpty' | 'empty'
+
+export interface RuleCondition {
+  field: string
+  operator: ConditionOperator
+  value: string     // Comma-separated for inList, number of days for withinDays
+  valueTo?: string  // Upper bound for between
+}
+
+// AND ('all') or OR ('any') of conditions and nested groups
+export interface ConditionGroup {
+  match: 'all' | 'any'
+  conditions: (RuleCondition | ConditionGroup)[]
 }
 
 export interface ColorRule {
-  field: string          // Field to check
-  operator: 'equals' | 'contains' | 'notEmpty' | 'empty'
-  value: string          // Value to match (for equals/contains)
+  condition: ConditionGroup
   backgroundColor: string
   textColor: string
 }
 
 export interface CardBackgroundRule {
-  field: string
-  operator: 'equals' | 'contains' | 'notEmpty' | 'empty'
-  value: string
+  condition: ConditionGroup
   backgroundColor: string
 }
 
+export interface ColorScaleStop {
+  value?: number  // Unset: taken from the data (lowest, highest, or halfway)
+  color: string
+}
+
+// Continuous colouring from a numeric column; date columns scale by age in days
+export interface ColorScaleRule {
+  field: string
+  target: 'background' | 'cardBorder'
+  min: ColorScaleStop
+  mid?: ColorScaleStop  // Three-colour (diverging) scale when set
+  max: ColorScaleStop
+}
+
+export type DateFormatStyle = 'short' | 'medium' | 'long' | 'iso' | 'relative'
+
+// Applied in order to a field's value before it is drawn. Dates, numbers, case
+// and value maps work on each item of a multi-value cell; the others on the text.
+export type FieldFormatter =
+  | { type: 'date'; style: DateFormatStyle; includeTime: boolean }  // Also reads Excel serial dates
+  | { type: 'number'; decimals?: number; thousands: boolean }
+  | { type: 'truncate'; maxLength: number }
+  | { type: 'firstLines'; lines: number }
+  | { type: 'case'; mode: 'upper' | 'lower' | 'title' }
+  | { type: 'affix'; prefix: string; suffix: string }
+  | { type: 'valueMap'; entries: { from: string; to: string }[] }  // e.g. Highest → P1
+  | { type: 'join'; separator: string }
+
+export type FieldFormatterType = FieldFormatter['type']
+
+// Shrink-to-fit: the largest size in this range at which the text fits its box
+export interface AutoFitConfig {
+  minFontSize: number
+  maxFontSize: number
+}
+
+// Shows a field only on tickets matching the condition
+export interface FieldVisibilityRule {
+  condition: ConditionGroup
+  collapse: boolean  // Give the space to the fields below instead of leaving a gap
+}
+
 export interface FieldStyle {
   fieldId: string
   fontSize: number
@@ -42,6 +138,10 @@ export interface FieldStyle {
   showLabel: boolean
   showBorder: boolean
   colorRules: ColorRule[]
+  colorScale?: ColorScaleRule
+  formatters?: FieldFormatter[]
+  autoFit?: AutoFitConfig
+  visibility?: FieldVisibilityRule
 }
 
 export interface EnrichmentGroup {
@@ -71,7 +171,7 @@ export type AISortMode = 'natural-language-links' | 'semantic-clustering' | 'fuz
 export interface SimpleSortConfig {
   field: string
   direction: 'asc' | 'desc'
-  numeric: boolean
+  numeric?: boolean  // Legacy templates; the column schema now decides how values compare
 }
 
 export interface LinkedIssueGroupConfig {
@@ -118,6 +218,7 @@ export interface AISortConfig {
 }
 
 export interface SortConfig {
+  filter?: string  // Filter expression (utils/filterQuery.ts), applied before sorting
   rules: SortRule[]  // Chain of sort rules (applied in order)
   aiSort?: AISortConfig  // Optional AI-powered sorting
 }
@@ -131,15 +232,70 @@ export interface SortedCardResult {
   aiSimilarity?: number  // Similarity score for AI grouping
 }
 
+export type PaperSizeId = 'a4' | 'letter'
+export type SizeUnit = 'mm' | 'in'
+
+export interface ImpositionConfig {
+  enabled: boolean
+  paper: PaperSizeId
+  orientation: 'portrait' | 'landscape'
+  rows: number
+  cols: number
+  gutterMm: number  // Space between adjacent cards
+  marginMm: number  // Space between the sheet edge and the card grid
+  gutterYMm?: number  // Vertical overrides, needed for label sheets
+  marginYMm?: number
+}
+
+export interface CardSize {
+  id: string  // Preset id, or 'custom'
+  label: string
+  widthMm: number
+  heightMm: number
+  unit: SizeUnit  // Unit used to display and edit the size
+  sheet?: Omit<ImpositionConfig, 'enabled'>  // Fixed sheet layout (label sheets)
+}
+
+export type CardSide = 'front' | 'back'
+
+export interface PrintSettings {
+  imposition: ImpositionConfig
+  cutMarks: boolean
+  bleedMm: number      // Card background extends this far past the trim line
+  safeZoneMm: number   // Keep content this far inside the trim line
+  showSafeZone: boolean
+  duplex: boolean      // Interleave a back page after every front page
+  duplexFlip: 'long-edge' | 'short-edge'
+}
+
+// Everything that makes up one card design
+export interface LayoutDesign {
+  fieldLayouts: FieldLayout[]
+  backFieldLayouts: FieldLayout[]
+  fieldStyles: FieldStyle[]
+  cardBackgroundRules: CardBackgroundRule[]
+}
+
+// Alternative design for tickets matching the condition (e.g. Issue Type = Bug)
+export interface LayoutVariant extends LayoutDesign {
+  id: string
+  name: string
+  condition: ConditionGroup
+}
+
 export interface CardTemplate {
   id: string
   name: string
   createdAt: number
   fieldMappings: FieldMapping[]
   fieldLayouts: FieldLayout[]
+  backFieldLayouts?: FieldLayout[]  // Card back, printed when duplex is enabled
   fieldStyles: FieldStyle[]
   cardBackgroundRules?: CardBackgroundRule[]
+  layoutVariants?: LayoutVariant[]  // First match wins; other tickets use the layout above
   sortConfig?: SortConfig
+  cardSize?: CardSize
+  printSettings?: PrintSettings  // Imposition, duplex and finishing; older templates keep the current settings
 }
 
 export interface SavedEnrichment {
@@ -149,6 +305,108 @@ export interface SavedEnrichment {
   enrichmentGroup: EnrichmentGroup
 }
 
+export type JiraAuthType = 'basic' | 'bearer'
+
+export interface JiraConnection {
+  baseUrl: string         // e.g. https://example.atlassian.net
+  authType: JiraAuthType  // 'basic' = email + API token, 'bearer' = personal access token
+  username?: string
+  token: string
+}
+
+export type JiraQueryMode = 'jql' | 'sprint' | 'board'
+
+export interface JiraQuery {
+  mode: JiraQueryMode
+  value: string  // JQL text, or a sprint/board ID
+}
+
+export interface JiraHttpRequest {
+  baseUrl: string  // Configured server; the desktop app only sends requests to its origin
+  url: string
+  method: 'GET' | 'POST'
+  headers: Record<string, string>
+  body?: string
+}
+
+export interface JiraHttpResponse {
+  status: number
+  statusText: string
+  body: string
+}
+
+export type TicketChangeStatus = 'new' | 'changed' | 'unchanged' | 'removed'
+
+export interface FieldChange {
+  field: string
+  before: string
+  after: string
+}
+
+export interface TicketChange {
+  key: string
+  status: TicketChangeStatus
+  fieldChanges: FieldChange[]  // Only for 'changed'
+}
+
+// What the previous import looked like, kept to diff the next one against
+export interface ImportSnapshot {
+  importedAt: number
+  columns: string[]
+  rows: Record<string, Record<string, string>>  // ticket key -> column -> display value
+}
+
+export interface ImportChangeReport {
+  previousImportedAt: number
+  tickets: Record<string, TicketChange>  // By ticket key, including removed tickets
+  counts: Record<TicketChangeStatus, number>
+  addedColumns: string[]
+  removedColumns: string[]
+}
+
+// Everything a project file restores into dataStore
+export interface ProjectData {
+  rows: TicketRow[]
+  columns: string[]
+  columnSchema: ColumnSchema
+  fieldMappings: FieldMapping[]
+  fieldLayouts: FieldLayout[]
+  backFieldLayouts: FieldLayout[]
+  fieldStyles: FieldStyle[]
+  cardBackgroundRules: CardBackgroundRule[]
+  layoutVariants: LayoutVariant[]
+  sortConfig: SortConfig
+  enrichmentGroup: EnrichmentGroup | null
+  aiSortedResults: SortedCardResult[] | null
+  cardSize: CardSize
+  printSettings: PrintSettings
+  selectedCardKeys: string[]
+}
+
+export interface ProjectFileSaveRequest {
+  filePath?: string       // Overwrite this file; ask for a path when missing
+  defaultFileName: string
+  content: string
+}
+
+export interface ProjectFileOpenResult {
+  filePath: string
+  content: string
+}
+
+export interface ExportFileWriteRequest {
+  fileName: string        // Written into the folder chosen with chooseExportFolder
+  data: Uint8Array
+}
+
+// A batch print started from the command line; see electron/main.ts
+export interface CliJob {
+  inputName: string       // Spreadsheet or CSV file name
+  data: Uint8Array
+  template: string        // Name of a saved template
+  sheet?: string          // Defaults to the first sheet
+}
+
 export interface AppState {
   // Data
   rows: TicketRow[]
@@ -169,10 +427,28 @@ export interface AppState {
   chatHistory: ChatMessage[]
 }
 
+// File System Access API pickers (Chromium only, so not in the DOM typings)
+export interface FilePickerAcceptType {
+  description?: string
+  accept: Record<string, string[]>
+}
+
 declare global {
   interface Window {
+    showSaveFilePicker?: (options?: { suggestedName?: string; types?: FilePickerAcceptType[] }) => Promise<FileSystemFileHandle>
+    showOpenFilePicker?: (options?: { multiple?: boolean; types?: FilePickerAcceptType[] }) => Promise<FileSystemFileHandle[]>
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>
     electronAPI?: {
       openFileDialog: () => Promise<string | null>
+      exportPDF: (options: { defaultFileName: string; pageRanges?: string }) => Promise<string | null>
+      jiraRequest: (request: JiraHttpRequest) => Promise<JiraHttpResponse>
+      saveProject: (request: ProjectFileSaveRequest) => Promise<string | null>
+      openProject: () => Promise<ProjectFileOpenResult | null>
+      chooseExportFolder: () => Promise<string | null>
+      writeExportFile: (request: ExportFileWriteRequest) => Promise<string>
+      getCliJob: () => Promise<CliJob | null>
+      finishCliJob: (result: { cardCount: number }) => Promise<void>
+      failCliJob: (message: string) => Promise<void>
     }
   }
 }
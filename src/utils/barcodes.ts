@@ -0,0 +1,42 @@
+import { toSVG } from 'bwip-js/browser'
+import { CodeFormat } from '../types'
+
+export const CODE_FORMAT_LABELS: Record<CodeFormat, string> = {
+  qrcode: 'QR code',
+  code128: 'Barcode (Code 128)'
+}
+
+// A deck renders the same codes over and over (designer, print, PDF)
+const MAX_CACHED_CODES = 500
+const svgCache = new Map<string, string | null>()
+
+/**
+ * Encodes text as an SVG image, generated locally. Null when the text can't
+ * be encoded (empty, or characters the format doesn't support).
+ */
+export function renderCodeSvg(format: CodeFormat, text: string, color: string): string | null {
+  const cacheKey = `${format}|${color}|${text}`
+  if (svgCache.has(cacheKey)) return svgCache.get(cacheKey)!
+
+  let svg: string | null = null
+  if (text) {
+    try {
+      svg = toSVG({
+        bcid: format,
+        text,
+        barcolor: color.replace(/^#/, ''),
+        ...(format === 'code128' && { includetext: true, textcolor: color.replace(/^#/, '') })
+      })
+    } catch (error) {
+      console.error(`Could not encode "${text}" as ${format}:`, error)
+    }
+  }
+
+  if (svgCache.size >= MAX_CACHED_CODES) svgCache.delete(svgCache.keys().next().value!)
+  svgCache.set(cacheKey, svg)
+  return svg
+}
+
+export function svgToDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
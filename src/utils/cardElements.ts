@@ -0,0 +1,111 @@
+import { CardElement, CardElementType, ColumnSchema, FieldLayout, TicketRow } from '../types'
+import { formatTypedValue } from './columnTypes'
+
+export const STATIC_PREFIX = '_static_'
+
+// Images are stored inside templates, which live in localStorage
+export const MAX_IMAGE_BYTES = 500 * 1024
+
+export const CARD_ELEMENT_LABELS: Record<CardElementType, string> = {
+  text: 'Text',
+  image: 'Image',
+  line: 'Line',
+  box: 'Box',
+  code: 'QR / Barcode'
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g
+
+export function isStaticLayout(layout: FieldLayout): layout is FieldLayout & { element: CardElement } {
+  return !!layout.element
+}
+
+/**
+ * keyColumn seeds QR codes with the ticket key
+ */
+export function createCardElement(type: CardElementType, keyColumn?: string | null): CardElement {
+  switch (type) {
+    case 'text':
+      return { type, text: 'Text', fontSize: 14, fontWeight: 'normal', textAlign: 'left', color: '#111827' }
+    case 'image':
+      return { type, src: '', fit: 'contain' }
+    case 'line':
+      return { type, orientation: 'horizontal', thickness: 2, color: '#9ca3af' }
+    case 'box':
+      return { type, fillColor: '#f3f4f6', borderColor: '#9ca3af', borderWidth: 1, borderRadius: 4 }
+    case 'code':
+      return { type, format: 'qrcode', baseUrl: '', value: keyColumn ? `{{${keyColumn}}}` : '', color: '#000000' }
+  }
+}
+
+/**
+ * Layout for a new element, placed below everything else on the side
+ */
+export function createStaticLayout(element: CardElement, layouts: FieldLayout[]): FieldLayout {
+  const maxY = Math.max(0, ...layouts.map(l => l.y + l.h))
+  const isVertical = element.type === 'line' && element.orientation === 'vertical'
+  const isCode = element.type === 'code'
+  return {
+    i: `${STATIC_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    x: 0,
+    y: maxY,
+    w: isVertical ? 1 : element.type === 'line' ? 12 : isCode ? 3 : 4,
+    h: isVertical ? 4 : element.type === 'line' ? 1 : isCode ? 4 : 2,
+    minW: 1,
+    minH: 1,
+    element
+  }
+}
+
+/**
+ * Replaces {{Column}} with the ticket's value; unknown columns are left as typed
+ * so a misspelt placeholder is visible on the card
+ */
+export function fillPlaceholders(text: string, row: TicketRow | null, columnSchema: ColumnSchema): string {
+  if (!row) return text
+  return text.replace(PLACEHOLDER_PATTERN, (match, field: string) =>
+    field in row ? formatTypedValue(row[field], columnSchema[field]) : match
+  )
+}
+
+/**
+ * What a QR/barcode element encodes for a ticket
+ */
+export function getCodeText(element: Extract<CardElement, { type: 'code' }>, row: TicketRow | null, columnSchema: ColumnSchema): string {
+  const value = fillPlaceholders(element.value, row, columnSchema).trim()
+  return value ? element.baseUrl.trim() + value : ''
+}
+
+function mapPlaceholderFields(text: string, mapField: (field: string) => string): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_match, field: string) => `{{${mapField(field)}}}`)
+}
+
+/**
+ * Renames the columns an element's placeholders refer to (used when a
+ * template is applied to a file with different column names)
+ */
+export function mapElementFields(element: CardElement, mapField: (field: string) => string): CardElement {
+  switch (element.type) {
+    case 'text':
+      return { ...element, text: mapPlaceholderFields(element.text, mapField) }
+    case 'code':
+      return { ...element, value: mapPlaceholderFields(element.value, mapField) }
+    default:
+      return element
+  }
+}
+
+export function readImageFile(file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    return Promise.reject(new Error(`${file.name} is not an image`))
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return Promise.reject(new Error(`Image is too large (max ${MAX_IMAGE_BYTES / 1024} KB)`))
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}`))
+    reader.readAsDataURL(file)
+  })
+}
@@ -0,0 +1,215 @@
+import {
+  CardElement,
+  CardSide,
+  ColumnSchema,
+  ColumnType,
+  EnrichmentGroup,
+  FieldLayout,
+  FieldMapping,
+  FieldStyle,
+  LayoutDesign,
+  TicketRow
+} from '../types'
+import { formatCellValue } from './cellValues'
+import { isStaticLayout } from './cardElements'
+import { evaluateCardBorder, evaluateColorScale, ScaleDomain } from './colorScale'
+import { formatFieldValue } from './fieldFormatters'
+import { applyFieldVisibility, FieldVisibility, getFieldVisibility } from './fieldVisibility'
+import { evaluateCardBackground, evaluateColorRules } from './ruleEvaluator'
+
+export const GRID_COLS = 12
+export const CARD_PADDING_PERCENT = 1.5  // Space between the card edge and the field grid
+export const FIELD_PADDING_PX = 6
+// CSS pixels per millimetre; font sizes are CSS pixels on the printed card
+export const PX_PER_MM = 96 / 25.4
+export const ENRICHED_PREFIX = '_enriched_'
+
+// Cards with no fields still get a sensible grid
+const DEFAULT_GRID_ROWS = 10
+
+/**
+ * Everything besides the design and the ticket that decides how a card looks
+ */
+export interface CardContext {
+  fieldMappings: FieldMapping[]
+  enrichmentGroup: EnrichmentGroup | null
+  columnSchema: ColumnSchema
+  scaleDomains: Map<string, ScaleDomain | null>
+}
+
+export interface ResolvedField {
+  kind: 'field'
+  layout: FieldLayout
+  label: string
+  text: string
+  style: FieldStyle
+  visibility: FieldVisibility
+  backgroundColor: string
+  textColor?: string
+  labelColor: string
+  fontSize: number   // Used when auto-fit is off
+  labelSize: number
+}
+
+export interface ResolvedElement {
+  kind: 'element'
+  layout: FieldLayout
+  element: CardElement
+}
+
+export type ResolvedCardItem = ResolvedField | ResolvedElement
+
+/**
+ * A card ready to draw: grid positions are still in grid units, everything
+ * else (text, colours, sizes) is final
+ */
+export interface ResolvedCard {
+  row: TicketRow
+  columnSchema: ColumnSchema
+  backgroundColor: string
+  borderColor: string | null
+  gridRows: number
+  items: ResolvedCardItem[]
+}
+
+export function getFieldStyle(fieldStyles: FieldStyle[], fieldId: string): FieldStyle {
+  return fieldStyles.find(s => s.fieldId === fieldId) || {
+    fieldId,
+    fontSize: 12,
+    fontWeight: 'normal',
+    textAlign: 'left',
+    showLabel: true,
+    showBorder: true,
+    colorRules: []
+  }
+}
+
+/**
+ * Column (or enrichment field) a layout item shows
+ */
+export function getFieldColumn(fieldId: string): string {
+  return fieldId.startsWith(ENRICHED_PREFIX) ? fieldId.slice(ENRICHED_PREFIX.length) : fieldId
+}
+
+export function getDisplayName(fieldId: string, fieldMappings: FieldMapping[]): string {
+  if (fieldId.startsWith(ENRICHED_PREFIX)) return getFieldColumn(fieldId)
+  return fieldMappings.find(m => m.columnName === fieldId)?.displayName || fieldId
+}
+
+/**
+ * Adds the ticket's enrichment fields that the layout doesn't place yet,
+ * two per row below everything else
+ */
+export function withEnrichedLayouts(layouts: FieldLayout[], row: TicketRow, enrichmentGroup: EnrichmentGroup | null): FieldLayout[] {
+  if (!enrichmentGroup) return layouts
+  const enrichedFields = enrichmentGroup.enrichments[formatCellValue(row[enrichmentGroup.groupField])]
+  if (!enrichedFields) return layouts
+
+  const maxY = Math.max(0, ...layouts.map(l => l.y + l.h))
+  const added: FieldLayout[] = Object.keys(enrichedFields)
+    .filter(fieldName => !layouts.some(l => l.i === `${ENRICHED_PREFIX}${fieldName}`))
+    .map((fieldName, i) => ({
+      i: `${ENRICHED_PREFIX}${fieldName}`,
+      x: (i % 2) * 6,
+      y: maxY + Math.floor(i / 2) * 2,
+      w: 6,
+      h: 2,
+      minW: 2,
+      minH: 1
+    }))
+  return added.length > 0 ? [...layouts, ...added] : layouts
+}
+
+/**
+ * Grid rows the card height is divided into: the bottom of the lowest item
+ */
+export function getGridRows(layouts: FieldLayout[]): number {
+  const rows = Math.max(0, ...layouts.map(l => l.y + l.h))
+  return rows || DEFAULT_GRID_ROWS
+}
+
+/**
+ * The layout items of one side of a card, enrichment fields included
+ */
+export function getSideLayouts(design: LayoutDesign, row: TicketRow, side: CardSide, enrichmentGroup: EnrichmentGroup | null): FieldLayout[] {
+  return side === 'back' ? design.backFieldLayouts : withEnrichedLayouts(design.fieldLayouts, row, enrichmentGroup)
+}
+
+// Fields whose names suggest paragraphs of text print smaller
+const LONG_TEXT_NAME = /description|notes|workshop|summary/i
+const LONG_TEXT_LENGTH = 200
+
+/**
+ * Printed size without auto-fit, as cards have always printed: at least
+ * 24px for short values, 16-18px for long text
+ */
+function getPrintFontSize(style: FieldStyle, fieldId: string, type: ColumnType | undefined, text: string): number {
+  const isLongText = type === 'longText' || LONG_TEXT_NAME.test(fieldId) || text.length > LONG_TEXT_LENGTH
+  return isLongText
+    ? Math.max(16, Math.min(style.fontSize, 18))
+    : Math.max(24, style.fontSize)
+}
+
+function resolveField(layout: FieldLayout, design: LayoutDesign, row: TicketRow, context: CardContext, visibility: FieldVisibility): ResolvedField {
+  const { columnSchema } = context
+  const style = getFieldStyle(design.fieldStyles, layout.i)
+  const column = getFieldColumn(layout.i)
+  // Enrichment values are free text, whatever the type of a same-named column
+  const type = layout.i.startsWith(ENRICHED_PREFIX) ? undefined : columnSchema[column]
+  const colors = evaluateColorRules(style.colorRules || [], row, columnSchema)
+  const scaleColor = style.colorScale?.target === 'background'
+    ? evaluateColorScale(style.colorScale, row, columnSchema, context.scaleDomains.get(style.colorScale.field))
+    : null
+
+  const text = formatFieldValue(row[column], type, style.formatters)
+
+  return {
+    kind: 'field',
+    layout,
+    label: getDisplayName(layout.i, context.fieldMappings),
+    text,
+    style,
+    visibility,
+    backgroundColor: colors.backgroundColor || scaleColor || (style.showBorder ? '#fafafa' : 'transparent'),
+    textColor: colors.textColor || undefined,
+    labelColor: colors.textColor || '#6b7280',
+    fontSize: getPrintFontSize(style, layout.i, type, text),
+    labelSize: Math.max(12, style.fontSize * 0.6)
+  }
+}
+
+/**
+ * Works out how one side of a ticket's card looks. Hidden fields are left
+ * out (and collapsed) unless keepHiddenFields is set, which the designer
+ * uses to keep them editable.
+ */
+export function resolveCard(
+  design: LayoutDesign,
+  row: TicketRow,
+  side: CardSide,
+  context: CardContext,
+  options: { keepHiddenFields?: boolean } = {}
+): ResolvedCard {
+  const { columnSchema } = context
+  const layouts = getSideLayouts(design, row, side, context.enrichmentGroup)
+
+  const visibility = new Map(layouts.map(layout => [
+    layout.i,
+    isStaticLayout(layout) ? 'visible' as const : getFieldVisibility(getFieldStyle(design.fieldStyles, layout.i), row, columnSchema)
+  ]))
+  // The grid keeps its full height, so collapsed space ends up at the bottom
+  const placed = options.keepHiddenFields
+    ? layouts
+    : applyFieldVisibility(layouts, layout => visibility.get(layout.i) ?? 'visible')
+
+  return {
+    row,
+    columnSchema,
+    backgroundColor: evaluateCardBackground(design.cardBackgroundRules, row, columnSchema),
+    borderColor: evaluateCardBorder(design.fieldStyles, row, columnSchema, context.scaleDomains),
+    gridRows: getGridRows(layouts),
+    items: placed.map((layout): ResolvedCardItem => isStaticLayout(layout)
+      ? { kind: 'element', layout, element: layout.element }
+      : resolveField(layout, design, row, context, visibility.get(layout.i) ?? 'visible'))
+  }
+}
@@ -0,0 +1,93 @@
+import { CardSize, SizeUnit } from '../types'
+
+export const MM_PER_INCH = 25.4
+
+export interface CardSizeGroup {
+  label: string
+  sizes: CardSize[]
+}
+
+/**
+ * Built-in card sizes. Label sheets carry their exact sheet layout so that
+ * choosing one switches PrintView to the matching imposition.
+ */
+export const CARD_SIZE_GROUPS: CardSizeGroup[] = [
+  {
+    label: 'Paper',
+    sizes: [
+      { id: 'half-a4', label: 'Half A4', widthMm: 210, heightMm: 148.5, unit: 'mm' },
+      { id: 'a4', label: 'Full A4', widthMm: 210, heightMm: 297, unit: 'mm' },
+      { id: 'a5', label: 'A5', widthMm: 210, heightMm: 148, unit: 'mm' },
+      { id: 'a6', label: 'A6', widthMm: 148, heightMm: 105, unit: 'mm' },
+      { id: 'letter', label: 'US Letter', widthMm: 215.9, heightMm: 279.4, unit: 'in' },
+      { id: 'half-letter', label: 'Half Letter', widthMm: 215.9, heightMm: 139.7, unit: 'in' }
+    ]
+  },
+  {
+    label: 'Index cards',
+    sizes: [
+      { id: 'index-3x5', label: 'Index card 3×5"', widthMm: 127, heightMm: 76.2, unit: 'in' },
+      { id: 'index-4x6', label: 'Index card 4×6"', widthMm: 152.4, heightMm: 101.6, unit: 'in' }
+    ]
+  },
+  {
+    label: 'Sticky notes',
+    sizes: [
+      { id: 'sticky-76', label: 'Sticky note 76×76mm', widthMm: 76, heightMm: 76, unit: 'mm' },
+      { id: 'sticky-76x127', label: 'Sticky note 76×127mm', widthMm: 127, heightMm: 76, unit: 'mm' }
+    ]
+  },
+  {
+    label: 'Avery labels',
+    sizes: [
+      {
+        id: 'avery-l7163', label: 'Avery L7163 (14 per A4)', widthMm: 99.1, heightMm: 38.1, unit: 'mm',
+        sheet: { paper: 'a4', orientation: 'portrait', rows: 7, cols: 2, gutterMm: 2.5, marginMm: 4.65, gutterYMm: 0, marginYMm: 15.15 }
+      },
+      {
+        id: 'avery-l7165', label: 'Avery L7165 (8 per A4)', widthMm: 99.1, heightMm: 67.7, unit: 'mm',
+        sheet: { paper: 'a4', orientation: 'portrait', rows: 4, cols: 2, gutterMm: 2.5, marginMm: 4.65, gutterYMm: 0, marginYMm: 13.1 }
+      },
+      {
+        id: 'avery-l7173', label: 'Avery L7173 (10 per A4)', widthMm: 99.1, heightMm: 57, unit: 'mm',
+        sheet: { paper: 'a4', orientation: 'portrait', rows: 5, cols: 2, gutterMm: 2.5, marginMm: 4.65, gutterYMm: 0, marginYMm: 6 }
+      },
+      {
+        id: 'avery-5163', label: 'Avery 5163 (10 per Letter)', widthMm: 101.6, heightMm: 50.8, unit: 'in',
+        sheet: { paper: 'letter', orientation: 'portrait', rows: 5, cols: 2, gutterMm: 4.76, marginMm: 3.97, gutterYMm: 0, marginYMm: 12.7 }
+      },
+      {
+        id: 'avery-5388', label: 'Avery 5388 index cards (3 per Letter)', widthMm: 127, heightMm: 76.2, unit: 'in',
+        sheet: { paper: 'letter', orientation: 'portrait', rows: 3, cols: 1, gutterMm: 0, marginMm: 44.45, gutterYMm: 0, marginYMm: 25.4 }
+      }
+    ]
+  }
+]
+
+export const CARD_SIZE_PRESETS: CardSize[] = CARD_SIZE_GROUPS.flatMap(group => group.sizes)
+
+export const DEFAULT_CARD_SIZE: CardSize = CARD_SIZE_PRESETS[0]
+
+export function findCardSizePreset(id: string): CardSize | undefined {
+  return CARD_SIZE_PRESETS.find(size => size.id === id)
+}
+
+export function createCustomCardSize(widthMm: number, heightMm: number, unit: SizeUnit): CardSize {
+  return { id: 'custom', label: 'Custom', widthMm, heightMm, unit }
+}
+
+export function toUnit(mm: number, unit: SizeUnit): number {
+  const value = unit === 'in' ? mm / MM_PER_INCH : mm
+  return Math.round(value * 100) / 100
+}
+
+export function fromUnit(value: number, unit: SizeUnit): number {
+  return unit === 'in' ? value * MM_PER_INCH : value
+}
+
+/**
+ * Human-readable dimensions, e.g. "210 × 148.5 mm" or "5 × 3 in"
+ */
+export function formatCardSize(size: CardSize): string {
+  return `${toUnit(size.widthMm, size.unit)} × ${toUnit(size.heightMm, size.unit)} ${size.unit}`
+}
@@ -1,24 +1,37 @@
-import { TicketRow, SortConfig, SimpleSortConfig, LinkedIssueGroupConfig, SortedCardResult } from '../types'
+import { TicketRow, SortConfig, SimpleSortConfig, LinkedIssueGroupConfig, SortedCardResult, ColumnSchema, ColumnType } from '../types'
+import { CellValue, formatCellValue } from './cellValues'
+import { compareTypedValues } from './columnTypes'
 
 /**
  * Extracts issue keys from a field value using the provided pattern
  */
-function extractIssueKeys(value: unknown, pattern: RegExp): string[] {
+function extractIssueKeys(value: CellValue, pattern: RegExp): string[] {
   if (value == null) return []
-  const str = String(value)
+  const str = formatCellValue(value)
   // Create new regex instance to avoid stateful issues with global flag
   const regex = new RegExp(pattern.source, 'g')
   const matches = str.match(regex)
   return matches || []
 }
 
+/**
+ * Column type to sort by. Fields missing from the schema (enrichment fields)
+ * fall back to the legacy "Treat as numbers" flag of old templates.
+ */
+function resolveSortType(config: SimpleSortConfig, columnSchema: ColumnSchema): ColumnType | undefined {
+  return columnSchema[config.field] ?? (config.numeric ? 'number' : undefined)
+}
+
 /**
  * Performs simple field-based sorting of cards
  */
 function applySortSimple(
   results: SortedCardResult[],
-  config: SimpleSortConfig
+  config: SimpleSortConfig,
+  columnSchema: ColumnSchema
 ): SortedCardResult[] {
+  const type = resolveSortType(config, columnSchema)
+
   const sorted = [...results]
 
   sorted.sort((a, b) => {
@@ -30,23 +43,7 @@ function applySortSimple(
     if (aVal == null) return 1
     if (bVal == null) return -1
 
-    let comparison = 0
-
-    if (config.numeric) {
-      const aNum = parseFloat(String(aVal))
-      const bNum = parseFloat(String(bVal))
-      // If either is NaN, fall back to string comparison
-      comparison = isNaN(aNum) || isNaN(bNum)
-        ? String(aVal).localeCompare(String(bVal))
-        : aNum - bNum
-    } else {
-      // Natural sort with numeric awareness (e.g., "2" before "10")
-      comparison = String(aVal).localeCompare(String(bVal), undefined, {
-        numeric: true,
-        sensitivity: 'base'  // Case-insensitive
-      })
-    }
-
+    const comparison = compareTypedValues(aVal, bVal, type)
     return config.direction === 'asc' ? comparison : -comparison
   })
 
@@ -65,7 +62,8 @@ interface IssueGraphNode {
  */
 function applySortLinkedIssues(
   results: SortedCardResult[],
-  config: LinkedIssueGroupConfig
+  config: LinkedIssueGroupConfig,
+  columnSchema: ColumnSchema
 ): SortedCardResult[] {
   // Extract rows from results
   const rows = results.map(r => r.row)
@@ -140,6 +138,10 @@ function applySortLinkedIssues(
     })
   }
 
+  const withinType = config.sortWithinGroups
+    ? resolveSortType(config.sortWithinGroups, columnSchema)
+    : undefined
+
   // Process each root
   roots.forEach(rootKey => {
     const group: SortedCardResult[] = []
@@ -161,10 +163,7 @@ function applySortLinkedIssues(
           if (aVal == null) return 1
           if (bVal == null) return -1
 
-          const comparison = String(aVal).localeCompare(String(bVal), undefined, {
-            numeric: true,
-            sensitivity: 'base'
-          })
+          const comparison = compareTypedValues(aVal, bVal, withinType)
 
           return config.sortWithinGroups!.direction === 'asc' ? comparison : -comparison
         })
@@ -196,10 +195,7 @@ function applySortLinkedIssues(
             if (aVal == null) return 1
             if (bVal == null) return -1
 
-            const comparison = String(aVal).localeCompare(String(bVal), undefined, {
-              numeric: true,
-              sensitivity: 'base'
-            })
+            const comparison = compareTypedValues(aVal, bVal, withinType)
 
             return config.sortWithinGroups!.direction === 'asc' ? comparison : -comparison
           })
@@ -250,7 +246,8 @@ function applySortLinkedIssues(
  */
 export function applySorting(
   rows: TicketRow[],
-  config: SortConfig
+  config: SortConfig,
+  columnSchema: ColumnSchema = {}
 ): SortedCardResult[] {
   console.log('🔧 applySorting called with:', {
     rowCount: rows.length,
@@ -278,7 +275,7 @@ export function applySorting(
   for (const rule of config.rules) {
     console.log(`🔄 Applying rule: ${rule.type}`)
     if (rule.type === 'simple' && rule.simple) {
-      results = applySortSimple(results, rule.simple)
+      results = applySortSimple(results, rule.simple, columnSchema)
       console.log(`✅ Simple sort complete, results: ${results.length}`)
     } else if (rule.type === 'linked-issues' && rule.linkedIssues) {
       console.log('📎 Applying linked-issues sorting with config:', {
@@ -286,7 +283,7 @@ export function applySorting(
         linkedIssuesField: rule.linkedIssues.linkedIssuesField,
         pattern: rule.linkedIssues.issueKeyPattern.source
       })
-      results = applySortLinkedIssues(results, rule.linkedIssues)
+      results = applySortLinkedIssues(results, rule.linkedIssues, columnSchema)
       console.log(`✅ Linked-issues sort complete, results: ${results.length}`)
 
       // Log first 5 results
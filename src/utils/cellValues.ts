@@ -0,0 +1,23 @@
+import { TicketRow } from '../types'
+
+export type CellValue = TicketRow[string]
+
+export const MULTI_VALUE_SEPARATOR = ', '
+
+/**
+ * Display text for a cell. Multi-value cells (merged duplicate columns)
+ * are joined with ", ".
+ */
+export function formatCellValue(value: CellValue): string {
+  if (value == null) return ''
+  if (Array.isArray(value)) return value.join(MULTI_VALUE_SEPARATOR)
+  return String(value)
+}
+
+/**
+ * The individual values of a cell, so rules can match any one of them
+ */
+export function getCellValues(value: CellValue): string[] {
+  if (Array.isArray(value)) return value
+  return [value == null ? '' : String(value)]
+}
@@ -0,0 +1,142 @@
+import { ColorScaleRule, ColumnSchema, ColumnType, FieldStyle, TicketRow } from '../types'
+import { CellValue } from './cellValues'
+import { parseDateValue, parseNumberValue } from './columnTypes'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Width of the card border painted by a 'cardBorder' scale
+export const SCALE_BORDER_MM = 1.5
+
+export interface ScaleDomain {
+  min: number
+  max: number
+}
+
+export interface ResolvedStop {
+  value: number
+  color: string
+}
+
+/**
+ * The number a cell puts on a scale: its value for numeric columns, its
+ * age in days for date columns (so older tickets sit further up the scale)
+ */
+export function getScaleValue(cell: CellValue, type: ColumnType | undefined): number | null {
+  if (type === 'date' || type === 'datetime') {
+    const date = parseDateValue(cell)
+    return date ? Math.floor((Date.now() - date.time) / DAY_MS) : null
+  }
+  return parseNumberValue(cell)
+}
+
+export function computeScaleDomain(rows: TicketRow[], field: string, columnSchema: ColumnSchema): ScaleDomain | null {
+  let min = Infinity
+  let max = -Infinity
+  for (const row of rows) {
+    const value = getScaleValue(row[field], columnSchema[field])
+    if (value === null) continue
+    min = Math.min(min, value)
+    max = Math.max(max, value)
+  }
+  return min <= max ? { min, max } : null
+}
+
+/**
+ * Domains for every field used by a colour scale, computed once per render
+ * rather than once per card
+ */
+export function computeScaleDomains(fieldStyles: FieldStyle[], rows: TicketRow[], columnSchema: ColumnSchema) {
+  const domains = new Map<string, ScaleDomain | null>()
+  for (const style of fieldStyles) {
+    const field = style.colorScale?.field
+    if (field && !domains.has(field)) domains.set(field, computeScaleDomain(rows, field, columnSchema))
+  }
+  return domains
+}
+
+/**
+ * Fills stops left unset from the domain. Null when a stop has no value and
+ * there is no data to take one from.
+ */
+export function resolveScaleStops(rule: ColorScaleRule, domain: ScaleDomain | null | undefined): ResolvedStop[] | null {
+  const min = rule.min.value ?? domain?.min
+  const max = rule.max.value ?? domain?.max
+  if (min === undefined || max === undefined) return null
+
+  const stops = [{ value: min, color: rule.min.color }]
+  if (rule.mid) stops.push({ value: rule.mid.value ?? (min + max) / 2, color: rule.mid.color })
+  stops.push({ value: max, color: rule.max.color })
+  return stops.sort((a, b) => a.value - b.value)
+}
+
+function parseHex(color: string): [number, number, number] | null {
+  const hex = color.trim().replace(/^#/, '')
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex
+  if (!/^[0-9a-f]{6}$/i.test(full)) return null
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as [number, number, number]
+}
+
+function mixColors(from: string, to: string, t: number): string {
+  const a = parseHex(from)
+  const b = parseHex(to)
+  if (!a || !b) return t < 0.5 ? from : to
+  return '#' + a.map((channel, i) => Math.round(channel + (b[i] - channel) * t).toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Colour for a value; values outside the stops take the end colours
+ */
+export function interpolateStops(stops: ResolvedStop[], value: number): string {
+  if (value <= stops[0].value) return stops[0].color
+  for (let i = 1; i < stops.length; i++) {
+    const lower = stops[i - 1]
+    const upper = stops[i]
+    if (value <= upper.value) {
+      const span = upper.value - lower.value
+      return mixColors(lower.color, upper.color, span === 0 ? 1 : (value - lower.value) / span)
+    }
+  }
+  return stops[stops.length - 1].color
+}
+
+export function evaluateColorScale(
+  rule: ColorScaleRule,
+  row: TicketRow | null,
+  columnSchema: ColumnSchema,
+  domain: ScaleDomain | null | undefined
+): string | null {
+  if (!row) return null
+  const value = getScaleValue(row[rule.field], columnSchema[rule.field])
+  const stops = resolveScaleStops(rule, domain)
+  if (value === null || !stops) return null
+  return interpolateStops(stops, value)
+}
+
+/**
+ * Card border colour from the first field style whose scale targets the
+ * card border and has a value for this row
+ */
+export function evaluateCardBorder(
+  fieldStyles: FieldStyle[],
+  row: TicketRow | null,
+  columnSchema: ColumnSchema,
+  domains: Map<string, ScaleDomain | null>
+): string | null {
+  for (const style of fieldStyles) {
+    const scale = style.colorScale
+    if (scale?.target !== 'cardBorder') continue
+    const color = evaluateColorScale(scale, row, columnSchema, domains.get(scale.field))
+    if (color) return color
+  }
+  return null
+}
+
+/**
+ * CSS gradient with the stops placed proportionally, for legends
+ */
+export function scaleGradient(stops: ResolvedStop[]): string {
+  const first = stops[0].value
+  const span = stops[stops.length - 1].value - first
+  const parts = stops.map(stop => `${stop.color} ${span === 0 ? 0 : Math.round((stop.value - first) / span * 100)}%`)
+  return `linear-gradient(to right, ${parts.join(', ')})`
+}
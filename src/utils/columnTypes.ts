@@ -0,0 +1,167 @@
+import { ColumnSchema, ColumnType, TicketRow } from '../types'
+import { CellValue, formatCellValue, getCellValues } from './cellValues'
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  number: 'Number',
+  date: 'Date',
+  datetime: 'Date & time',
+  enum: 'Category',
+  list: 'List',
+  issueKey: 'Issue key',
+  url: 'URL',
+  longText: 'Long text',
+  text: 'Text'
+}
+
+const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9_]+-\d+$/
+const URL_PATTERN = /^https?:\/\/\S+$/i
+const NUMBER_PATTERN = /^-?(\d+|\d{1,3}(,\d{3})+)(\.\d+)?$/
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+// Jira CSV dates: "12/Jan/24 10:30 AM"
+const JIRA_DATE_PATTERN = /^(\d{1,2})\/([A-Za-z]{3})\/(\d{2}|\d{4})(?: (\d{1,2}):(\d{2})(?: ?([AP]M))?)?$/i
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const LONG_TEXT_LENGTH = 80
+const MAX_ENUM_VALUES = 20
+
+export interface ParsedDate {
+  time: number
+  hasTime: boolean
+}
+
+/**
+ * Parses the date formats found in exports (ISO and Jira's "12/Jan/24 10:30 AM").
+ * Deliberately strict: Date.parse accepts almost anything, including plain numbers.
+ */
+export function parseDateValue(value: CellValue): ParsedDate | null {
+  if (typeof value !== 'string') return null
+  const text = value.trim()
+
+  const iso = text.match(ISO_DATE_PATTERN)
+  if (iso) {
+    const time = Date.parse(iso[4] ? text.replace(' ', 'T') : `${text}T00:00:00`)
+    return isNaN(time) ? null : { time, hasTime: !!iso[4] }
+  }
+
+  const jira = text.match(JIRA_DATE_PATTERN)
+  if (jira) {
+    const month = MONTHS.indexOf(jira[2].toLowerCase())
+    if (month === -1) return null
+    const year = jira[3].length === 2 ? 2000 + Number(jira[3]) : Number(jira[3])
+    let hours = jira[4] ? Number(jira[4]) : 0
+    if (jira[6]) hours = hours % 12 + (jira[6].toUpperCase() === 'PM' ? 12 : 0)
+    const date = new Date(year, month, Number(jira[1]), hours, jira[5] ? Number(jira[5]) : 0)
+    return { time: date.getTime(), hasTime: !!jira[4] }
+  }
+
+  return null
+}
+
+export function parseNumberValue(value: CellValue): number | null {
+  if (typeof value === 'number') return value
+  if (typeof value !== 'string') return null
+  const text = value.trim()
+  if (!NUMBER_PATTERN.test(text)) return null
+  return Number(text.replace(/,/g, ''))
+}
+
+/**
+ * Classifies a column from its values. Every non-empty value has to fit a
+ * type for it to be chosen; otherwise the column falls back to text.
+ */
+export function inferColumnType(values: CellValue[]): ColumnType {
+  if (values.some(Array.isArray)) return 'list'
+
+  const filled = values
+    .filter(value => value != null && String(value).trim() !== '')
+    .map(value => value as string | number)
+  if (filled.length === 0) return 'text'
+
+  if (filled.every(value => parseNumberValue(value) !== null)) return 'number'
+
+  const dates = filled.map(parseDateValue)
+  if (dates.every(Boolean)) {
+    return dates.some(date => date!.hasTime) ? 'datetime' : 'date'
+  }
+
+  const texts = filled.map(value => String(value).trim())
+  if (texts.every(text => ISSUE_KEY_PATTERN.test(text))) return 'issueKey'
+  if (texts.every(text => URL_PATTERN.test(text))) return 'url'
+
+  const averageLength = texts.reduce((sum, text) => sum + text.length, 0) / texts.length
+  if (averageLength > LONG_TEXT_LENGTH || texts.some(text => text.includes('\n'))) return 'longText'
+
+  // A handful of values that repeat across tickets
+  const distinct = new Set(texts.map(text => text.toLowerCase())).size
+  if (distinct <= MAX_ENUM_VALUES && distinct < texts.length / 2) return 'enum'
+
+  return 'text'
+}
+
+export function inferColumnSchema(rows: TicketRow[], columns: string[]): ColumnSchema {
+  const schema: ColumnSchema = {}
+  for (const column of columns) {
+    schema[column] = inferColumnType(rows.map(row => row[column]))
+  }
+  return schema
+}
+
+/**
+ * Compares two cells according to the column type. Values that don't parse
+ * (e.g. "n/a" in a number column) sort after the ones that do.
+ */
+export function compareTypedValues(a: CellValue, b: CellValue, type: ColumnType | undefined): number {
+  if (type === 'number' || type === 'date' || type === 'datetime') {
+    const parse = type === 'number' ? parseNumberValue : (value: CellValue) => parseDateValue(value)?.time ?? null
+    const aNum = parse(a)
+    const bNum = parse(b)
+    if (aNum !== null && bNum !== null) return aNum - bNum
+    if (aNum !== null) return -1
+    if (bNum !== null) return 1
+  }
+
+  // Natural sort with numeric awareness (e.g., "2" before "10")
+  return formatCellValue(a).localeCompare(formatCellValue(b), undefined, {
+    numeric: true,
+    sensitivity: 'base'  // Case-insensitive
+  })
+}
+
+/**
+ * Type-aware equality used by colour rules: numbers compare by value, dates by
+ * day (or minute for datetimes), lists match if any item matches.
+ */
+export function cellEquals(value: CellValue, expected: string, type: ColumnType | undefined): boolean {
+  if (type === 'number') {
+    const expectedNumber = parseNumberValue(expected.trim())
+    if (expectedNumber !== null) return parseNumberValue(value) === expectedNumber
+  }
+
+  if (type === 'date' || type === 'datetime') {
+    const actual = parseDateValue(value)
+    const target = parseDateValue(expected)
+    if (actual && target) {
+      return target.hasTime
+        ? Math.floor(actual.time / 60000) === Math.floor(target.time / 60000)
+        : new Date(actual.time).toDateString() === new Date(target.time).toDateString()
+    }
+  }
+
+  return getCellValues(value).some(item => item.trim().toLowerCase() === expected.trim().toLowerCase())
+}
+
+/**
+ * Display text for a cell on a printed card
+ */
+export function formatTypedValue(value: CellValue, type: ColumnType | undefined): string {
+  if (type === 'date' || type === 'datetime') {
+    const date = parseDateValue(value)
+    if (date) {
+      return type === 'date'
+        ? new Date(date.time).toLocaleDateString()
+        : new Date(date.time).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })
+    }
+  }
+  return formatCellValue(value)
+}
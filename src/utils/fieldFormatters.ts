@@ -0,0 +1,178 @@
+import { ColumnType, DateFormatStyle, FieldFormatter, FieldFormatterType } from '../types'
+import { CellValue, getCellValues, MULTI_VALUE_SEPARATOR } from './cellValues'
+import { formatTypedValue, parseDateValue, parseNumberValue } from './columnTypes'
+
+export const FORMATTER_LABELS: Record<FieldFormatterType, string> = {
+  date: 'Date',
+  number: 'Number',
+  truncate: 'Max length',
+  firstLines: 'First lines',
+  case: 'Case',
+  affix: 'Prefix / suffix',
+  valueMap: 'Value map',
+  join: 'Join list'
+}
+
+export const DATE_STYLE_LABELS: Record<DateFormatStyle, string> = {
+  short: 'Short (1/12/24)',
+  medium: 'Medium (Jan 12, 2024)',
+  long: 'Long (January 12, 2024)',
+  iso: 'ISO (2024-01-12)',
+  relative: 'Relative (3 days ago)'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Excel counts days from 1899-12-30; 2958465 is 9999-12-31
+const MAX_EXCEL_SERIAL = 2958465
+
+export function createFormatter(type: FieldFormatterType): FieldFormatter {
+  switch (type) {
+    case 'date':
+      return { type, style: 'medium', includeTime: false }
+    case 'number':
+      return { type, thousands: true }
+    case 'truncate':
+      return { type, maxLength: 80 }
+    case 'firstLines':
+      return { type, lines: 3 }
+    case 'case':
+      return { type, mode: 'upper' }
+    case 'affix':
+      return { type, prefix: '', suffix: '' }
+    case 'valueMap':
+      return { type, entries: [{ from: '', to: '' }] }
+    case 'join':
+      return { type, separator: ' · ' }
+  }
+}
+
+/**
+ * Dates as exported (ISO, Jira) or as Excel serial day numbers
+ */
+function parseAnyDate(value: string): number | null {
+  const date = parseDateValue(value)
+  if (date) return date.time
+
+  const serial = parseNumberValue(value)
+  if (serial === null || serial < 1 || serial > MAX_EXCEL_SERIAL) return null
+  const days = Math.floor(serial)
+  const time = new Date(1899, 11, 30 + days).getTime()
+  return time + Math.round((serial - days) * DAY_MS)
+}
+
+function formatRelativeDate(time: number): string {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const day = new Date(time)
+  day.setHours(0, 0, 0, 0)
+  const days = Math.round((day.getTime() - today.getTime()) / DAY_MS)
+
+  const format = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' })
+  if (Math.abs(days) < 45) return format.format(days, 'day')
+  if (Math.abs(days) < 365) return format.format(Math.round(days / 30), 'month')
+  return format.format(Math.round(days / 365), 'year')
+}
+
+function formatDate(value: string, formatter: Extract<FieldFormatter, { type: 'date' }>): string {
+  const time = parseAnyDate(value)
+  if (time === null) return value
+
+  const date = new Date(time)
+  const timeText = formatter.includeTime
+    ? ' ' + date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : ''
+  switch (formatter.style) {
+    case 'iso': {
+      const pad = (n: number) => String(n).padStart(2, '0')
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}${timeText}`
+    }
+    case 'relative':
+      return formatRelativeDate(time)
+    default:
+      return date.toLocaleDateString(undefined, { dateStyle: formatter.style }) + timeText
+  }
+}
+
+function formatNumber(value: string, formatter: Extract<FieldFormatter, { type: 'number' }>): string {
+  const number = parseNumberValue(value)
+  if (number === null) return value
+  return number.toLocaleString(undefined, {
+    minimumFractionDigits: formatter.decimals,
+    maximumFractionDigits: formatter.decimals ?? 20,
+    useGrouping: formatter.thousands
+  })
+}
+
+function toTitleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|[\s\-/(])(\p{L})/gu, (_match, before: string, letter: string) => before + letter.toUpperCase())
+}
+
+function applyToItem(item: string, formatter: FieldFormatter): string {
+  switch (formatter.type) {
+    case 'date':
+      return formatDate(item, formatter)
+    case 'number':
+      return formatNumber(item, formatter)
+    case 'case':
+      return formatter.mode === 'upper' ? item.toUpperCase()
+        : formatter.mode === 'lower' ? item.toLowerCase()
+        : toTitleCase(item)
+    case 'valueMap': {
+      const key = item.trim().toLowerCase()
+      const entry = formatter.entries.find(e => e.from.trim() !== '' && e.from.trim().toLowerCase() === key)
+      return entry ? entry.to : item
+    }
+    default:
+      return item
+  }
+}
+
+function applyToText(text: string, formatter: FieldFormatter): string {
+  switch (formatter.type) {
+    case 'truncate':
+      return text.length > formatter.maxLength
+        ? text.slice(0, Math.max(0, formatter.maxLength - 1)).trimEnd() + '…'
+        : text
+    case 'firstLines': {
+      const lines = text.split(/\r?\n/)
+      return lines.length > formatter.lines ? lines.slice(0, formatter.lines).join('\n') + '…' : text
+    }
+    case 'affix':
+      return text.trim() === '' ? text : formatter.prefix + text + formatter.suffix
+    default:
+      return text
+  }
+}
+
+const ITEM_FORMATTERS: FieldFormatterType[] = ['date', 'number', 'case', 'valueMap']
+
+/**
+ * Display text for a field: the column's default formatting, or the
+ * formatter chain when the field has one. Empty values stay empty.
+ */
+export function formatFieldValue(value: CellValue, type: ColumnType | undefined, formatters: FieldFormatter[] = []): string {
+  if (formatters.length === 0) return formatTypedValue(value, type)
+
+  // Without an explicit date formatter, dates keep the column's formatting
+  const formatsDates = formatters.some(f => f.type === 'date')
+  let items: string[] | null = getCellValues(value).map(item => formatsDates ? item : formatTypedValue(item, type))
+  let text = ''
+
+  for (const formatter of formatters) {
+    if (items && ITEM_FORMATTERS.includes(formatter.type)) {
+      items = items.map(item => item.trim() === '' ? item : applyToItem(item, formatter))
+    } else if (items && formatter.type === 'join') {
+      text = items.filter(item => item.trim() !== '').join(formatter.separator)
+      items = null
+    } else {
+      // Text formatters work on the whole value, so a list is joined first
+      if (items) {
+        text = items.join(MULTI_VALUE_SEPARATOR)
+        items = null
+      }
+      text = ITEM_FORMATTERS.includes(formatter.type) ? applyToItem(text, formatter) : applyToText(text, formatter)
+    }
+  }
+
+  return items ? items.join(MULTI_VALUE_SEPARATOR) : text
+}
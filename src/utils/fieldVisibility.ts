@@ -0,0 +1,41 @@
+import { ColumnSchema, FieldLayout, FieldStyle, TicketRow } from '../types'
+import { evaluateConditionGroup } from './ruleEvaluator'
+
+export type FieldVisibility = 'visible' | 'hidden' | 'collapsed'
+
+export function getFieldVisibility(style: FieldStyle | undefined, row: TicketRow | null, columnSchema: ColumnSchema): FieldVisibility {
+  const rule = style?.visibility
+  // An empty condition hasn't been set up yet, so it doesn't hide anything
+  if (!rule || !row || rule.condition.conditions.length === 0) return 'visible'
+  if (evaluateConditionGroup(rule.condition, row, columnSchema)) return 'visible'
+  return rule.collapse ? 'collapsed' : 'hidden'
+}
+
+/**
+ * Drops hidden fields from a card's layout. Grid rows that only held
+ * collapsed fields (and empty cells) are removed and everything below moves
+ * up; a row shared with a visible field stays, so fields never overlap.
+ */
+export function applyFieldVisibility(
+  layouts: FieldLayout[],
+  getVisibility: (layout: FieldLayout) => FieldVisibility
+): FieldLayout[] {
+  const visibility = new Map(layouts.map(layout => [layout, getVisibility(layout)]))
+  const visible = layouts.filter(layout => visibility.get(layout) === 'visible')
+  const collapsed = layouts.filter(layout => visibility.get(layout) === 'collapsed')
+  if (collapsed.length === 0) return visible
+
+  const occupies = (layout: FieldLayout, row: number) => row >= layout.y && row < layout.y + layout.h
+  const maxY = Math.max(...collapsed.map(l => l.y + l.h))
+  const removedRows: number[] = []
+  for (let row = 0; row < maxY; row++) {
+    if (collapsed.some(l => occupies(l, row)) && !visible.some(l => occupies(l, row))) {
+      removedRows.push(row)
+    }
+  }
+
+  return visible.map(layout => {
+    const shift = removedRows.filter(row => row < layout.y).length
+    return shift > 0 ? { ...layout, y: layout.y - shift } : layout
+  })
+}
@@ -0,0 +1,370 @@
+import { ColumnSchema, TicketRow } from '../types'
+import { formatCellValue } from './cellValues'
+import { cellEquals, compareTypedValues } from './columnTypes'
+
+/**
+ * A small JQL-like filter language:
+ *
+ *   Status != Done AND "Story Points" >= 3 AND Labels ~ backend
+ *   (Priority IN (High, Highest) OR Assignee IS EMPTY) AND NOT Type = Epic
+ *
+ * Operators: = != > >= < <= ~ (contains) !~ (does not contain),
+ * IN (...), NOT IN (...), IS EMPTY, IS NOT EMPTY. Field names and keywords
+ * are case-insensitive; names with spaces and values with spaces are quoted.
+ */
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~'
+
+export type FilterNode =
+  | { type: 'and' | 'or'; left: FilterNode; right: FilterNode }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'compare'; field: string; operator: FilterOperator; value: string }
+  | { type: 'in'; field: string; values: string[]; negate: boolean }
+  | { type: 'empty'; field: string; negate: boolean }
+
+interface Token {
+  type: 'word' | 'string' | 'operator' | 'lparen' | 'rparen' | 'comma'
+  value: string
+  start: number
+  end: number
+}
+
+const OPERATORS: FilterOperator[] = ['!=', '>=', '<=', '!~', '=', '>', '<', '~']
+const KEYWORDS = ['AND', 'OR', 'NOT', 'IN', 'IS', 'EMPTY']
+const WORD_PATTERN = /[^\s()=!<>~,"']/
+
+function tokenize(text: string, lenient = false): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char === '(' ? 'lparen' : char === ')' ? 'rparen' : 'comma', value: char, start: i, end: i + 1 })
+      i++
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      let value = ''
+      let j = i + 1
+      while (j < text.length && text[j] !== char) {
+        if (text[j] === '\\' && j + 1 < text.length) j++
+        value += text[j]
+        j++
+      }
+      if (j >= text.length && !lenient) {
+        throw new Error(`Missing closing quote (column ${i + 1})`)
+      }
+      tokens.push({ type: 'string', value, start: i, end: Math.min(j + 1, text.length) })
+      i = j + 1
+      continue
+    }
+
+    const operator = OPERATORS.find(op => text.startsWith(op, i))
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, start: i, end: i + operator.length })
+      i += operator.length
+      continue
+    }
+
+    if (!WORD_PATTERN.test(char)) {
+      if (lenient) {
+        i++
+        continue
+      }
+      throw new Error(`Unexpected "${char}" (column ${i + 1})`)
+    }
+
+    let j = i
+    while (j < text.length && WORD_PATTERN.test(text[j])) j++
+    tokens.push({ type: 'word', value: text.slice(i, j), start: i, end: j })
+    i = j
+  }
+
+  return tokens
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token?.type === 'word' && token.value.toUpperCase() === keyword
+}
+
+/**
+ * Parses a filter expression into a syntax tree. Throws with a readable
+ * message (including the column) on invalid input.
+ */
+export function parseFilter(text: string): FilterNode {
+  const tokens = tokenize(text)
+  let pos = 0
+
+  const peek = () => tokens[pos]
+  const describe = (token: Token | undefined) => token ? `"${token.value}" (column ${token.start + 1})` : 'end of filter'
+  const fail = (expected: string): never => {
+    throw new Error(`Expected ${expected} but found ${describe(peek())}`)
+  }
+
+  const parseOr = (): FilterNode => {
+    let left = parseAnd()
+    while (isKeyword(peek(), 'OR')) {
+      pos++
+      left = { type: 'or', left, right: parseAnd() }
+    }
+    return left
+  }
+
+  const parseAnd = (): FilterNode => {
+    let left = parseNot()
+    while (isKeyword(peek(), 'AND')) {
+      pos++
+      left = { type: 'and', left, right: parseNot() }
+    }
+    return left
+  }
+
+  const parseNot = (): FilterNode => {
+    if (isKeyword(peek(), 'NOT')) {
+      pos++
+      return { type: 'not', operand: parseNot() }
+    }
+    return parsePrimary()
+  }
+
+  const parseValue = (): string => {
+    const token = peek()
+    if (token?.type === 'string' || (token?.type === 'word' && !KEYWORDS.includes(token.value.toUpperCase()))) {
+      pos++
+      return token.value
+    }
+    return fail('a value')
+  }
+
+  const parseValueList = (): string[] => {
+    if (peek()?.type !== 'lparen') fail('"(" after IN')
+    pos++
+    const values = [parseValue()]
+    while (peek()?.type === 'comma') {
+      pos++
+      values.push(parseValue())
+    }
+    if (peek()?.type !== 'rparen') fail('"," or ")"')
+    pos++
+    return values
+  }
+
+  const parsePrimary = (): FilterNode => {
+    const token = peek()
+
+    if (token?.type === 'lparen') {
+      pos++
+      const node = parseOr()
+      if (peek()?.type !== 'rparen') fail('")"')
+      pos++
+      return node
+    }
+
+    if (!token || (token.type !== 'word' && token.type !== 'string') ||
+        (token.type === 'word' && KEYWORDS.includes(token.value.toUpperCase()))) {
+      return fail('a field name')
+    }
+    pos++
+    const field = token.value
+    const next = peek()
+
+    if (next?.type === 'operator') {
+      pos++
+      return { type: 'compare', field, operator: next.value as FilterOperator, value: parseValue() }
+    }
+
+    if (isKeyword(next, 'IS')) {
+      pos++
+      const negate = isKeyword(peek(), 'NOT')
+      if (negate) pos++
+      if (!isKeyword(peek(), 'EMPTY')) fail('EMPTY')
+      pos++
+      return { type: 'empty', field, negate }
+    }
+
+    if (isKeyword(next, 'IN') || (isKeyword(next, 'NOT') && isKeyword(tokens[pos + 1], 'IN'))) {
+      const negate = isKeyword(next, 'NOT')
+      pos += negate ? 2 : 1
+      return { type: 'in', field, values: parseValueList(), negate }
+    }
+
+    return fail(`an operator after "${field}"`)
+  }
+
+  if (tokens.length === 0) fail('a condition')
+  const tree = parseOr()
+  if (pos < tokens.length) fail('AND, OR or end of filter')
+  return tree
+}
+
+/**
+ * Maps each field in the tree to a real column (case-insensitive), failing
+ * on names that don't exist so typos don't silently match nothing.
+ */
+function resolveFields(node: FilterNode, columns: string[]): FilterNode {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return { ...node, left: resolveFields(node.left, columns), right: resolveFields(node.right, columns) }
+    case 'not':
+      return { ...node, operand: resolveFields(node.operand, columns) }
+    default: {
+      const column = columns.find(c => c === node.field) ||
+        columns.find(c => c.toLowerCase() === node.field.toLowerCase())
+      if (!column) throw new Error(`Unknown field "${node.field}"`)
+      return { ...node, field: column }
+    }
+  }
+}
+
+export function evaluateFilter(node: FilterNode, row: TicketRow, columnSchema: ColumnSchema): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluateFilter(node.left, row, columnSchema) && evaluateFilter(node.right, row, columnSchema)
+    case 'or':
+      return evaluateFilter(node.left, row, columnSchema) || evaluateFilter(node.right, row, columnSchema)
+    case 'not':
+      return !evaluateFilter(node.operand, row, columnSchema)
+    case 'empty':
+      return (formatCellValue(row[node.field]).trim() === '') !== node.negate
+    case 'in':
+      return node.values.some(value => cellEquals(row[node.field], value, columnSchema[node.field])) !== node.negate
+    case 'compare': {
+      const cell = row[node.field]
+      const type = columnSchema[node.field]
+      const text = formatCellValue(cell).toLowerCase()
+
+      switch (node.operator) {
+        case '=': return cellEquals(cell, node.value, type)
+        case '!=': return !cellEquals(cell, node.value, type)
+        case '~': return text.includes(node.value.toLowerCase())
+        case '!~': return !text.includes(node.value.toLowerCase())
+      }
+
+      // Ordering never matches empty cells, like JQL
+      if (text.trim() === '') return false
+      const comparison = compareTypedValues(cell, node.value, type)
+      switch (node.operator) {
+        case '>': return comparison > 0
+        case '>=': return comparison >= 0
+        case '<': return comparison < 0
+        case '<=': return comparison <= 0
+      }
+    }
+  }
+}
+
+export interface FilterResult {
+  rows: TicketRow[]
+  error?: string  // Set when the filter is invalid; rows are then left unfiltered
+}
+
+/**
+ * Applies a filter expression. Runs before sorting so every view works on the
+ * same subset of tickets.
+ */
+export function filterRows(
+  rows: TicketRow[],
+  filter: string | undefined,
+  columns: string[],
+  columnSchema: ColumnSchema
+): FilterResult {
+  if (!filter || !filter.trim()) return { rows }
+
+  try {
+    const tree = resolveFields(parseFilter(filter), columns)
+    return { rows: rows.filter(row => evaluateFilter(tree, row, columnSchema)) }
+  } catch (error) {
+    return { rows, error: error instanceof Error ? error.message : 'Invalid filter' }
+  }
+}
+
+export interface FilterSuggestions {
+  items: string[]
+  replaceFrom: number  // Start of the partial word the suggestion replaces
+}
+
+const quoteIfNeeded = (value: string) => /^[^\s()=!<>~,"']+$/.test(value) ? value : `"${value.replace(/"/g, '\\"')}"`
+
+/**
+ * Autocomplete for the filter bar: column names where a field is expected,
+ * operators after a field, known values after an operator, and AND/OR after
+ * a complete condition.
+ */
+export function getFilterSuggestions(
+  text: string,
+  cursor: number,
+  columns: string[],
+  rows: TicketRow[]
+): FilterSuggestions {
+  const before = text.slice(0, cursor)
+  const tokens = tokenize(before, true)
+
+  // The token under the cursor is still being typed
+  const last = tokens[tokens.length - 1]
+  const typing = last && last.end === before.length && (last.type === 'word' || last.type === 'string')
+  const partial = typing ? last.value.toLowerCase() : ''
+  const replaceFrom = typing ? last.start : before.length
+  const previous = tokens.slice(0, typing ? -1 : undefined)
+  const prev = previous[previous.length - 1]
+
+  const match = (items: string[]) => ({
+    items: items.filter(item => item.toLowerCase().replace(/^"/, '').startsWith(partial) && item.toLowerCase() !== partial),
+    replaceFrom
+  })
+
+  const beforePrev = previous[previous.length - 2]
+  const isFieldToken = (token: Token | undefined) =>
+    (token?.type === 'word' && !KEYWORDS.includes(token.value.toUpperCase())) || token?.type === 'string'
+
+  // "Status NOT |" continues with IN rather than starting a new condition
+  if (isKeyword(prev, 'NOT') && isFieldToken(beforePrev)) return match(['IN'])
+
+  const expectsValue = prev && (prev.type === 'operator' || prev.type === 'comma' ||
+    (prev.type === 'lparen' && isKeyword(beforePrev, 'IN')))
+  const expectsField = !prev || (prev.type === 'lparen' && !expectsValue) ||
+    ['AND', 'OR', 'NOT'].some(keyword => isKeyword(prev, keyword))
+  if (expectsField) {
+    return match([...columns.map(quoteIfNeeded), ...(isKeyword(prev, 'NOT') ? [] : ['NOT'])])
+  }
+
+  if (expectsValue) {
+    // Find the field this value belongs to by walking back past IN (...)
+    let index = previous.length - 1
+    while (index > 0 && !(previous[index].type === 'operator' || isKeyword(previous[index], 'IN'))) index--
+    const field = previous[index - 1]?.value
+    const column = columns.find(c => c.toLowerCase() === field?.toLowerCase())
+    if (!column) return { items: [], replaceFrom }
+
+    const values = new Set<string>()
+    for (const row of rows) {
+      const cell = row[column]
+      for (const value of Array.isArray(cell) ? cell : [formatCellValue(cell)]) {
+        if (value.trim()) values.add(value)
+        if (values.size >= 50) break
+      }
+      if (values.size >= 50) break
+    }
+    return match(Array.from(values).sort().map(quoteIfNeeded))
+  }
+
+  if (prev.type === 'word' || prev.type === 'string') {
+    // Right after a field name: suggest how to compare it
+    const isFieldPosition = !beforePrev || beforePrev.type === 'lparen' ||
+      ['AND', 'OR', 'NOT'].some(keyword => isKeyword(beforePrev, keyword))
+    if (isFieldPosition && isFieldToken(prev)) {
+      return match(['=', '!=', '>', '>=', '<', '<=', '~', '!~', 'IN', 'NOT IN', 'IS EMPTY', 'IS NOT EMPTY'])
+    }
+    if (isKeyword(prev, 'IS')) return match(['EMPTY', 'NOT EMPTY'])
+  }
+
+  return match(['AND', 'OR'])
+}
@@ -0,0 +1,78 @@
+import { ImportChangeReport, ImportSnapshot, TicketChange, TicketChangeStatus, TicketRow } from '../types'
+import { formatCellValue } from './cellValues'
+import { getTicketKey } from './ticketKeys'
+
+const SNAPSHOT_KEY = 'tickets-import-snapshot'
+
+export function loadImportSnapshot(): ImportSnapshot | null {
+  try {
+    const stored = localStorage.getItem(SNAPSHOT_KEY)
+    if (stored) return JSON.parse(stored)
+  } catch (e) {
+    console.error('Error loading import snapshot:', e)
+  }
+  return null
+}
+
+export function saveImportSnapshot(snapshot: ImportSnapshot) {
+  try {
+    localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot))
+  } catch (e) {
+    // Large imports can exceed the storage quota; change detection is skipped next time
+    console.error('Error saving import snapshot:', e)
+    localStorage.removeItem(SNAPSHOT_KEY)
+  }
+}
+
+export function clearImportSnapshot() {
+  localStorage.removeItem(SNAPSHOT_KEY)
+}
+
+export function createImportSnapshot(rows: TicketRow[], columns: string[], keyColumn: string): ImportSnapshot {
+  const snapshotRows: ImportSnapshot['rows'] = {}
+  for (const row of rows) {
+    const key = getTicketKey(row, keyColumn)
+    if (!key) continue
+    snapshotRows[key] = Object.fromEntries(columns.map(column => [column, formatCellValue(row[column])]))
+  }
+  return { importedAt: Date.now(), columns, rows: snapshotRows }
+}
+
+/**
+ * Classifies the tickets of a new import against the previous snapshot.
+ * Only columns present in both imports are compared, so adding or dropping
+ * a column doesn't mark every ticket as changed.
+ */
+export function diffImports(previous: ImportSnapshot, current: ImportSnapshot): ImportChangeReport {
+  const sharedColumns = current.columns.filter(column => previous.columns.includes(column))
+  const tickets: Record<string, TicketChange> = {}
+  const counts: Record<TicketChangeStatus, number> = { new: 0, changed: 0, unchanged: 0, removed: 0 }
+
+  for (const [key, row] of Object.entries(current.rows)) {
+    const before = previous.rows[key]
+    if (!before) {
+      tickets[key] = { key, status: 'new', fieldChanges: [] }
+    } else {
+      const fieldChanges = sharedColumns
+        .filter(column => (before[column] ?? '') !== (row[column] ?? ''))
+        .map(column => ({ field: column, before: before[column] ?? '', after: row[column] ?? '' }))
+      tickets[key] = { key, status: fieldChanges.length > 0 ? 'changed' : 'unchanged', fieldChanges }
+    }
+    counts[tickets[key].status]++
+  }
+
+  for (const key of Object.keys(previous.rows)) {
+    if (!current.rows[key]) {
+      tickets[key] = { key, status: 'removed', fieldChanges: [] }
+      counts.removed++
+    }
+  }
+
+  return {
+    previousImportedAt: previous.importedAt,
+    tickets,
+    counts,
+    addedColumns: current.columns.filter(column => !previous.columns.includes(column)),
+    removedColumns: previous.columns.filter(column => !current.columns.includes(column))
+  }
+}
@@ -0,0 +1,185 @@
+import { ImpositionConfig, PaperSizeId, PrintSettings } from '../types'
+
+export const PAPER_SIZES: Record<PaperSizeId, { widthMm: number; heightMm: number; label: string }> = {
+  'a4': { widthMm: 210, heightMm: 297, label: 'A4' },
+  'letter': { widthMm: 215.9, heightMm: 279.4, label: 'US Letter' }
+}
+
+export const IMPOSITION_PRESETS: { label: string; rows: number; cols: number; orientation: ImpositionConfig['orientation'] }[] = [
+  { label: '2 per sheet', rows: 2, cols: 1, orientation: 'portrait' },
+  { label: '4 per sheet', rows: 2, cols: 2, orientation: 'landscape' },
+  { label: '6 per sheet', rows: 3, cols: 2, orientation: 'portrait' },
+  { label: '8 per sheet', rows: 4, cols: 2, orientation: 'portrait' }
+]
+
+export const DEFAULT_IMPOSITION: ImpositionConfig = {
+  enabled: false,
+  paper: 'a4',
+  orientation: 'portrait',
+  rows: 2,
+  cols: 1,
+  gutterMm: 0,
+  marginMm: 0
+}
+
+export interface SheetCell {
+  xMm: number
+  yMm: number
+}
+
+export interface SheetLayout {
+  pageWidthMm: number
+  pageHeightMm: number
+  cellWidthMm: number
+  cellHeightMm: number
+  scale: number  // Factor applied to the card so it fits its cell
+  cells: SheetCell[]  // Top-left corner of each card, in reading order
+}
+
+/**
+ * Computes where each card goes on a physical sheet.
+ * Cards keep their aspect ratio and are scaled down (never up) to fit a cell,
+ * then centred inside it.
+ */
+export function computeSheetLayout(
+  config: ImpositionConfig,
+  cardWidthMm: number,
+  cardHeightMm: number
+): SheetLayout {
+  const paper = PAPER_SIZES[config.paper]
+  const pageWidthMm = config.orientation === 'portrait' ? paper.widthMm : paper.heightMm
+  const pageHeightMm = config.orientation === 'portrait' ? paper.heightMm : paper.widthMm
+
+  const rows = Math.max(1, config.rows)
+  const cols = Math.max(1, config.cols)
+
+  const marginYMm = config.marginYMm ?? config.marginMm
+  const gutterYMm = config.gutterYMm ?? config.gutterMm
+
+  const cellWidthMm = Math.max(0, (pageWidthMm - 2 * config.marginMm - (cols - 1) * config.gutterMm) / cols)
+  const cellHeightMm = Math.max(0, (pageHeightMm - 2 * marginYMm - (rows - 1) * gutterYMm) / rows)
+
+  const scale = Math.min(1, cellWidthMm / cardWidthMm, cellHeightMm / cardHeightMm)
+  const offsetX = (cellWidthMm - cardWidthMm * scale) / 2
+  const offsetY = (cellHeightMm - cardHeightMm * scale) / 2
+
+  const cells: SheetCell[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      cells.push({
+        xMm: config.marginMm + col * (cellWidthMm + config.gutterMm) + offsetX,
+        yMm: marginYMm + row * (cellHeightMm + gutterYMm) + offsetY
+      })
+    }
+  }
+
+  return { pageWidthMm, pageHeightMm, cellWidthMm, cellHeightMm, scale, cells }
+}
+
+/**
+ * Splits cards into consecutive sheets, preserving their order
+ */
+export function paginate<T>(items: T[], perSheet: number): T[][] {
+  const size = Math.max(1, perSheet)
+  const sheets: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    sheets.push(items.slice(i, i + size))
+  }
+  return sheets
+}
+
+/**
+ * Which way the back of a sheet must be mirrored so it lines up with the front.
+ * Flipping a portrait sheet on its long edge swaps left and right; a landscape
+ * sheet flipped on its long edge swaps top and bottom.
+ */
+export function getDuplexMirrorAxis(
+  orientation: ImpositionConfig['orientation'],
+  flip: PrintSettings['duplexFlip']
+): 'horizontal' | 'vertical' {
+  const longEdgeIsVertical = orientation === 'portrait'
+  return (flip === 'long-edge') === longEdgeIsVertical ? 'horizontal' : 'vertical'
+}
+
+/**
+ * Mirrors card positions for the back of a sheet (duplex printing)
+ */
+export function mirrorSheetLayout(
+  layout: SheetLayout,
+  cardWidthMm: number,
+  cardHeightMm: number,
+  axis: 'horizontal' | 'vertical'
+): SheetLayout {
+  const width = cardWidthMm * layout.scale
+  const height = cardHeightMm * layout.scale
+
+  return {
+    ...layout,
+    cells: layout.cells.map(cell => axis === 'horizontal'
+      ? { xMm: layout.pageWidthMm - cell.xMm - width, yMm: cell.yMm }
+      : { xMm: cell.xMm, yMm: layout.pageHeightMm - cell.yMm - height }
+    )
+  }
+}
+
+export interface CutMark {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+const CUT_MARK_OFFSET_MM = 1
+const CUT_MARK_MAX_LENGTH_MM = 5
+
+/**
+ * Builds crop marks in the sheet margins, one tick per cut line on each side.
+ * Marks start just outside the bleed so they are never printed over a card.
+ */
+export function computeCutMarks(
+  layout: SheetLayout,
+  cardWidthMm: number,
+  cardHeightMm: number,
+  bleedMm: number
+): CutMark[] {
+  if (layout.cells.length === 0) return []
+
+  const trimWidth = cardWidthMm * layout.scale
+  const trimHeight = cardHeightMm * layout.scale
+  const round = (n: number) => Math.round(n * 100) / 100
+
+  const xs = new Set<number>()
+  const ys = new Set<number>()
+  for (const cell of layout.cells) {
+    xs.add(round(cell.xMm))
+    xs.add(round(cell.xMm + trimWidth))
+    ys.add(round(cell.yMm))
+    ys.add(round(cell.yMm + trimHeight))
+  }
+
+  const minX = Math.min(...xs)
+  const maxX = Math.max(...xs)
+  const minY = Math.min(...ys)
+  const maxY = Math.max(...ys)
+  const gap = bleedMm + CUT_MARK_OFFSET_MM
+
+  const marks: CutMark[] = []
+
+  // Vertical ticks above and below the card grid
+  const topLength = Math.min(CUT_MARK_MAX_LENGTH_MM, minY - gap)
+  const bottomLength = Math.min(CUT_MARK_MAX_LENGTH_MM, layout.pageHeightMm - maxY - gap)
+  xs.forEach(x => {
+    if (topLength > 0) marks.push({ x1: x, y1: minY - gap - topLength, x2: x, y2: minY - gap })
+    if (bottomLength > 0) marks.push({ x1: x, y1: maxY + gap, x2: x, y2: maxY + gap + bottomLength })
+  })
+
+  // Horizontal ticks left and right of the card grid
+  const leftLength = Math.min(CUT_MARK_MAX_LENGTH_MM, minX - gap)
+  const rightLength = Math.min(CUT_MARK_MAX_LENGTH_MM, layout.pageWidthMm - maxX - gap)
+  ys.forEach(y => {
+    if (leftLength > 0) marks.push({ x1: minX - gap - leftLength, y1: y, x2: minX - gap, y2: y })
+    if (rightLength > 0) marks.push({ x1: maxX + gap, y1: y, x2: maxX + gap + rightLength, y2: y })
+  })
+
+  return marks
+}
@@ -0,0 +1,38 @@
+import { ColumnSchema, ConditionGroup, LayoutDesign, LayoutVariant, TicketRow } from '../types'
+import { evaluateConditionGroup } from './ruleEvaluator'
+
+export function createLayoutVariant(name: string, design: LayoutDesign, condition: ConditionGroup): LayoutVariant {
+  return {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    condition,
+    // Copies, so editing the variant leaves the design it started from alone
+    fieldLayouts: design.fieldLayouts.map(layout => ({ ...layout })),
+    backFieldLayouts: design.backFieldLayouts.map(layout => ({ ...layout })),
+    fieldStyles: design.fieldStyles.map(style => ({ ...style })),
+    cardBackgroundRules: [...design.cardBackgroundRules]
+  }
+}
+
+/**
+ * First variant whose condition the ticket matches. Variants without
+ * conditions are still being set up and never match.
+ */
+export function findLayoutVariant(variants: LayoutVariant[], row: TicketRow | null, columnSchema: ColumnSchema): LayoutVariant | null {
+  if (!row) return null
+  return variants.find(variant =>
+    variant.condition.conditions.length > 0 && evaluateConditionGroup(variant.condition, row, columnSchema)
+  ) ?? null
+}
+
+/**
+ * The design a ticket is printed with: its variant, or the default layout
+ */
+export function resolveLayoutDesign(
+  defaultDesign: LayoutDesign,
+  variants: LayoutVariant[],
+  row: TicketRow | null,
+  columnSchema: ColumnSchema
+): LayoutDesign {
+  return findLayoutVariant(variants, row, columnSchema) ?? defaultDesign
+}
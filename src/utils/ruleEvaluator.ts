@@ -0,0 +1,199 @@
+import { CardBackgroundRule, ColorRule, ColumnSchema, ColumnType, ConditionGroup, ConditionOperator, FieldStyle, RuleCondition, TicketRow } from '../types'
+import { CellValue, formatCellValue, getCellValues } from './cellValues'
+import { cellEquals, parseDateValue, parseNumberValue } from './columnTypes'
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string; symbol: string }[] = [
+  { value: 'equals', label: 'equals', symbol: '=' },
+  { value: 'notEquals', label: 'does not equal', symbol: '≠' },
+  { value: 'contains', label: 'contains', symbol: 'contains' },
+  { value: 'startsWith', label: 'starts with', symbol: 'starts with' },
+  { value: 'regex', label: 'matches regex', symbol: 'matches' },
+  { value: 'greaterThan', label: '>', symbol: '>' },
+  { value: 'lessThan', label: '<', symbol: '<' },
+  { value: 'between', label: 'between', symbol: 'between' },
+  { value: 'inList', label: 'in list', symbol: 'in' },
+  { value: 'before', label: 'before date', symbol: 'before' },
+  { value: 'after', label: 'after date', symbol: 'after' },
+  { value: 'withinDays', label: 'within N days', symbol: 'within days' },
+  { value: 'notEmpty', label: 'is not empty', symbol: 'is not empty' },
+  { value: 'empty', label: 'is empty', symbol: 'is empty' }
+]
+
+export const VALUELESS_OPERATORS: ConditionOperator[] = ['notEmpty', 'empty']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function isConditionGroup(item: RuleCondition | ConditionGroup): item is ConditionGroup {
+  return 'conditions' in item
+}
+
+// Compiled patterns, so a regex rule isn't recompiled for every card
+const regexCache = new Map<string, RegExp | null>()
+
+function getRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'))
+    } catch {
+      regexCache.set(pattern, null)
+    }
+  }
+  return regexCache.get(pattern)!
+}
+
+/**
+ * Orders a cell against a rule value: as dates for date columns (or when
+ * both sides parse as dates), otherwise as numbers. Null when they can't
+ * be compared, so ordering rules never match text by accident.
+ */
+function compareToValue(cell: CellValue, expected: string, type: ColumnType | undefined): number | null {
+  if (type !== 'number') {
+    const cellDate = parseDateValue(cell)
+    const expectedDate = parseDateValue(expected.trim())
+    if (cellDate && expectedDate) return cellDate.time - expectedDate.time
+  }
+
+  const cellNumber = parseNumberValue(cell)
+  const expectedNumber = parseNumberValue(expected.trim())
+  if (cellNumber !== null && expectedNumber !== null) return cellNumber - expectedNumber
+  return null
+}
+
+export function evaluateCondition(condition: RuleCondition, row: TicketRow, columnSchema: ColumnSchema): boolean {
+  const cell = row[condition.field]
+  const type = columnSchema[condition.field]
+  const text = formatCellValue(cell)
+  const expected = condition.value ?? ''
+
+  switch (condition.operator) {
+    case 'equals':
+      return cellEquals(cell, expected, type)
+    case 'notEquals':
+      return !cellEquals(cell, expected, type)
+    case 'contains':
+      return text.toLowerCase().includes(expected.toLowerCase())
+    case 'startsWith':
+      return getCellValues(cell).some(value => value.trim().toLowerCase().startsWith(expected.trim().toLowerCase()))
+    case 'regex': {
+      const regex = getRegex(expected)
+      return !!regex && getCellValues(cell).some(value => regex.test(value))
+    }
+    case 'greaterThan': {
+      const order = compareToValue(cell, expected, type)
+      return order !== null && order > 0
+    }
+    case 'lessThan': {
+      const order = compareToValue(cell, expected, type)
+      return order !== null && order < 0
+    }
+    case 'between': {
+      const fromOrder = compareToValue(cell, expected, type)
+      const toOrder = compareToValue(cell, condition.valueTo ?? '', type)
+      return fromOrder !== null && toOrder !== null && fromOrder >= 0 && toOrder <= 0
+    }
+    case 'inList':
+      return expected.split(',').some(item => item.trim() !== '' && cellEquals(cell, item.trim(), type))
+    case 'before':
+    case 'after': {
+      const date = parseDateValue(cell)
+      const target = parseDateValue(expected.trim())
+      if (!date || !target) return false
+      return condition.operator === 'before' ? date.time < target.time : date.time > target.time
+    }
+    case 'withinDays': {
+      // Either side of today, so it works for due dates and for "updated recently"
+      const date = parseDateValue(cell)
+      const days = parseNumberValue(expected.trim())
+      if (!date || days === null) return false
+      const today = new Date()
+      today.setHours(0, 0, 0, 0)
+      const day = new Date(date.time)
+      day.setHours(0, 0, 0, 0)
+      return Math.abs(day.getTime() - today.getTime()) <= days * DAY_MS
+    }
+    case 'notEmpty':
+      return text.trim() !== ''
+    case 'empty':
+      return text.trim() === ''
+  }
+}
+
+export function evaluateConditionGroup(group: ConditionGroup, row: TicketRow, columnSchema: ColumnSchema): boolean {
+  // An empty group matches nothing rather than every card
+  if (group.conditions.length === 0) return false
+  const test = (item: RuleCondition | ConditionGroup) => isConditionGroup(item)
+    ? evaluateConditionGroup(item, row, columnSchema)
+    : evaluateCondition(item, row, columnSchema)
+  return group.match === 'all' ? group.conditions.every(test) : group.conditions.some(test)
+}
+
+/**
+ * Field colours from the first matching rule
+ */
+export function evaluateColorRules(rules: ColorRule[], row: TicketRow | null, columnSchema: ColumnSchema) {
+  if (!row || !rules.length) return { backgroundColor: '', textColor: '' }
+
+  const rule = rules.find(r => evaluateConditionGroup(r.condition, row, columnSchema))
+  return rule
+    ? { backgroundColor: rule.backgroundColor, textColor: rule.textColor }
+    : { backgroundColor: '', textColor: '' }
+}
+
+/**
+ * Card background from the first matching rule, white otherwise
+ */
+export function evaluateCardBackground(rules: CardBackgroundRule[], row: TicketRow | null, columnSchema: ColumnSchema): string {
+  if (!row || !rules.length) return 'white'
+  return rules.find(r => evaluateConditionGroup(r.condition, row, columnSchema))?.backgroundColor || 'white'
+}
+
+export function describeConditionGroup(group: ConditionGroup): string {
+  const joiner = group.match === 'all' ? ' AND ' : ' OR '
+  return group.conditions.map(item => {
+    if (isConditionGroup(item)) return `(${describeConditionGroup(item)})`
+    const symbol = CONDITION_OPERATORS.find(op => op.value === item.operator)?.symbol ?? item.operator
+    if (VALUELESS_OPERATORS.includes(item.operator)) return `${item.field} ${symbol}`
+    if (item.operator === 'between') return `${item.field} between ${item.value} and ${item.valueTo ?? ''}`
+    return `${item.field} ${symbol} ${item.value}`
+  }).join(joiner)
+}
+
+/**
+ * Renames the fields a condition group refers to (used when a template is
+ * applied to a file with different column names)
+ */
+export function mapConditionFields(group: ConditionGroup, mapField: (field: string) => string): ConditionGroup {
+  return {
+    ...group,
+    conditions: group.conditions.map(item => isConditionGroup(item)
+      ? mapConditionFields(item, mapField)
+      : { ...item, field: mapField(item.field) })
+  }
+}
+
+// Rules saved before compound conditions had a single field/operator/value
+interface LegacyRule {
+  field: string
+  operator: ConditionOperator
+  value: string
+}
+
+function migrateCondition(rule: Partial<LegacyRule> & { condition?: ConditionGroup }): ConditionGroup {
+  if (rule.condition) return rule.condition
+  return {
+    match: 'all',
+    conditions: [{ field: rule.field ?? '', operator: rule.operator ?? 'equals', value: rule.value ?? '' }]
+  }
+}
+
+export function migrateColorRule(rule: ColorRule | (LegacyRule & Omit<ColorRule, 'condition'>)): ColorRule {
+  return { condition: migrateCondition(rule), backgroundColor: rule.backgroundColor, textColor: rule.textColor }
+}
+
+export function migrateCardBackgroundRule(rule: CardBackgroundRule | (LegacyRule & Omit<CardBackgroundRule, 'condition'>)): CardBackgroundRule {
+  return { condition: migrateCondition(rule), backgroundColor: rule.backgroundColor }
+}
+
+export function migrateFieldStyle(style: FieldStyle): FieldStyle {
+  return { ...style, colorRules: (style.colorRules || []).map(migrateColorRule) }
+}
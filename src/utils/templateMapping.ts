@@ -0,0 +1,149 @@
+import { CardTemplate, FieldLayout, FieldMapping, FieldStyle, LayoutDesign, LayoutVariant } from '../types'
+import { mapConditionFields } from './ruleEvaluator'
+import { isStaticLayout, mapElementFields } from './cardElements'
+
+export interface AdaptedTemplate {
+  fieldMappings: FieldMapping[]
+  design: LayoutDesign
+  layoutVariants: LayoutVariant[]
+}
+
+/**
+ * Smart column mapping: adapts a template to the current file's columns.
+ * Template columns are matched by name, then by position; fields whose
+ * column is gone are dropped and new columns are added disabled.
+ */
+export function adaptTemplate(template: CardTemplate, columns: string[]): AdaptedTemplate {
+  // Build a map from old column names to new column names
+  const columnMap = new Map<string, string>()
+  const usedCurrentColumns = new Set<string>()
+
+  // First pass: match by exact column name
+  for (const oldMapping of template.fieldMappings) {
+    if (columns.includes(oldMapping.columnName)) {
+      columnMap.set(oldMapping.columnName, oldMapping.columnName)
+      usedCurrentColumns.add(oldMapping.columnName)
+    }
+  }
+
+  // Second pass: match by column index for columns that weren't matched by name
+  for (const oldMapping of template.fieldMappings) {
+    if (!columnMap.has(oldMapping.columnName)) {
+      const columnIndex = oldMapping.columnIndex ?? -1
+      if (columnIndex >= 0 && columnIndex < columns.length) {
+        const newColumnName = columns[columnIndex]
+        if (!usedCurrentColumns.has(newColumnName)) {
+          columnMap.set(oldMapping.columnName, newColumnName)
+          usedCurrentColumns.add(newColumnName)
+        }
+      }
+    }
+  }
+
+  // Transform field mappings
+  const fieldMappings = columns.map((col, index) => {
+    // Find if this column was in the template (by name or mapped from index)
+    const oldColumnName = Array.from(columnMap.entries()).find(([_, newName]) => newName === col)?.[0]
+    const oldMapping = oldColumnName ? template.fieldMappings.find(m => m.columnName === oldColumnName) : null
+
+    if (oldMapping) {
+      return {
+        columnName: col,
+        displayName: oldMapping.displayName !== oldMapping.columnName ? oldMapping.displayName : col,
+        enabled: oldMapping.enabled,
+        columnIndex: index
+      }
+    } else {
+      // New column not in template - add as disabled
+      return {
+        columnName: col,
+        displayName: col,
+        enabled: false,
+        columnIndex: index
+      }
+    }
+  })
+
+  const mapField = (field: string) => columnMap.get(field) || field
+
+  // Transform field layouts (front and back)
+  const remapLayouts = (layouts: FieldLayout[]) => layouts
+    .map(layout => {
+      // Design elements stay put; only text placeholders name columns
+      if (isStaticLayout(layout)) {
+        return { ...layout, element: mapElementFields(layout.element, mapField) }
+      }
+      const newColumnName = columnMap.get(layout.i)
+      if (newColumnName) {
+        return { ...layout, i: newColumnName }
+      }
+      return null
+    })
+    .filter((l): l is NonNullable<typeof l> => l !== null)
+
+  // Transform field styles
+  const remapStyles = (styles: FieldStyle[]) => {
+    const newStyles = styles
+      .map((style): FieldStyle | null => {
+        const newColumnName = columnMap.get(style.fieldId)
+        if (newColumnName) {
+          // Also update color rules, scales and visibility to use new column names
+          const updatedColorRules = (style.colorRules || []).map(rule => ({
+            ...rule,
+            condition: mapConditionFields(rule.condition, mapField)
+          }))
+          const colorScale = style.colorScale && { ...style.colorScale, field: mapField(style.colorScale.field) }
+          const visibility = style.visibility && {
+            ...style.visibility,
+            condition: mapConditionFields(style.visibility.condition, mapField)
+          }
+          return { ...style, fieldId: newColumnName, colorRules: updatedColorRules, colorScale, visibility }
+        }
+        return null
+      })
+      .filter((s): s is FieldStyle => s !== null)
+
+    // Add default styles for new columns not in template
+    const styledColumns = new Set(newStyles.map(s => s.fieldId))
+    for (const col of columns) {
+      if (!styledColumns.has(col)) {
+        newStyles.push({
+          fieldId: col,
+          fontSize: 14,
+          fontWeight: 'normal',
+          textAlign: 'left',
+          showLabel: true,
+          showBorder: true,
+          colorRules: []
+        })
+      }
+    }
+    return newStyles
+  }
+
+  // The default design and every layout variant are remapped the same way
+  const remapDesign = (design: LayoutDesign): LayoutDesign => ({
+    fieldLayouts: remapLayouts(design.fieldLayouts),
+    backFieldLayouts: remapLayouts(design.backFieldLayouts),
+    fieldStyles: remapStyles(design.fieldStyles),
+    // Card background rules name columns in their conditions too
+    cardBackgroundRules: design.cardBackgroundRules.map(rule => ({
+      ...rule,
+      condition: mapConditionFields(rule.condition, mapField)
+    }))
+  })
+
+  const design = remapDesign({
+    fieldLayouts: template.fieldLayouts,
+    backFieldLayouts: template.backFieldLayouts || [],
+    fieldStyles: template.fieldStyles,
+    cardBackgroundRules: template.cardBackgroundRules || []
+  })
+  const layoutVariants = (template.layoutVariants || []).map(variant => ({
+    ...variant,
+    ...remapDesign(variant),
+    condition: mapConditionFields(variant.condition, mapField)
+  }))
+
+  return { fieldMappings, design, layoutVariants }
+}
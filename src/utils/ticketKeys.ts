@@ -0,0 +1,29 @@
+import { ColumnSchema, SortedCardResult, TicketRow } from '../types'
+import { formatCellValue } from './cellValues'
+
+// Column names Jira and common exports use for the issue key
+const KEY_COLUMN_NAMES = ['key', 'issue key', 'issue_key', 'issuekey', 'ticket', 'ticket key']
+
+/**
+ * Finds the column that identifies a ticket: a known key column name first,
+ * then the first column whose values all look like issue keys.
+ */
+export function findKeyColumn(columns: string[], columnSchema: ColumnSchema): string | null {
+  return columns.find(column => KEY_COLUMN_NAMES.includes(column.trim().toLowerCase()))
+    ?? columns.find(column => columnSchema[column] === 'issueKey')
+    ?? null
+}
+
+export function getTicketKey(row: TicketRow, keyColumn: string | null): string | null {
+  if (!keyColumn) return null
+  const key = formatCellValue(row[keyColumn]).trim()
+  return key || null
+}
+
+/**
+ * Stable identity of a card, so selections survive re-sorting and re-imports.
+ * Rows without a key fall back to their position in the import.
+ */
+export function getCardKey(result: SortedCardResult, keyColumn: string | null): string {
+  return getTicketKey(result.row, keyColumn) ?? `#${result.originalIndex}`
+}